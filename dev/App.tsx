@@ -1,5 +1,5 @@
 import { Split } from '@bigmistqke/solid-grid-split'
-import { createSignal, onMount, type Component } from 'solid-js'
+import { createEffect, createSignal, type Component } from 'solid-js'
 import { TmTextarea } from 'tm-textarea/solid'
 import { createFileSystem, DefaultIndentGuide, FileTree, PathUtils } from '../src'
 import styles from './App.module.css'
@@ -51,7 +51,7 @@ const App: Component = () => {
   const currentFile = () => {
     const _selectedFile = selectedFile()
     if (_selectedFile && fs.exists(_selectedFile)) {
-      return fs.readFile(_selectedFile)
+      return fs.readFile(_selectedFile, { encoding: 'utf8' })
     }
     return ''
   }
@@ -71,7 +71,8 @@ const App: Component = () => {
           {dirEnt => {
             const [editable, setEditable] = createSignal(false)
 
-            onMount(() => {
+            // Open files focused with the mouse or the keyboard
+            createEffect(() => {
               if (dirEnt().focused && dirEnt().type === 'file') {
                 setSelectedFile(dirEnt().path)
               }
@@ -82,30 +83,12 @@ const App: Component = () => {
                 class={styles.dirEnt}
                 style={{
                   background: dirEnt().selected ? '#484f6c' : undefined,
+                  opacity: dirEnt().cut ? 0.5 : undefined,
                 }}
                 onDblClick={() => setEditable(true)}
-                onMouseDown={() => {
-                  if (dirEnt().type === 'file') {
-                    setSelectedFile(dirEnt().path)
-                  }
-                }}
                 onKeyDown={e => {
-                  const _dirEnt = dirEnt()
-                  switch (e.code) {
-                    case 'Enter':
-                      setEditable(editable => !editable)
-                      break
-                    case 'Space':
-                      if (_dirEnt.type === 'dir') {
-                        if (_dirEnt.expanded) {
-                          _dirEnt.collapse()
-                        } else {
-                          _dirEnt.expand()
-                        }
-                      } else {
-                        setSelectedFile(_dirEnt.path)
-                      }
-                      break
+                  if (e.code === 'Enter') {
+                    setEditable(editable => !editable)
                   }
                 }}
               >
@@ -0,0 +1,316 @@
+import { createMemo, createSignal, getOwner, onCleanup, untrack } from 'solid-js'
+import type { FileSystem, FileSystemSnapshot } from './create-file-system'
+import type { StoredDirEnt } from './storage'
+import { extend, isEqualDirEnt, PathUtils } from './utils'
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                      Types                                     */
+/*                                                                                */
+/**********************************************************************************/
+
+export type FileSystemChange =
+  | { type: 'added'; path: string }
+  | { type: 'removed'; path: string }
+  | { type: 'modified'; path: string }
+  | { type: 'renamed'; path: string; oldPath: string }
+
+export type DirEntStatus = FileSystemChange['type']
+
+/** A snapshot, or a file system to take a snapshot from. */
+type DiffSource = FileSystemSnapshot<unknown> | { toJSON(): FileSystemSnapshot<unknown> }
+
+/** The parts of the file system the dirty tracker reads and watches. */
+type TrackedFileSystem = Pick<
+  FileSystem<unknown>,
+  'exists' | 'lstat' | 'readFile' | 'readlink' | 'watch'
+> & { toJSON(path?: string): FileSystemSnapshot<unknown> }
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                      Utils                                     */
+/*                                                                                */
+/**********************************************************************************/
+
+function toSnapshot(source: DiffSource): FileSystemSnapshot<unknown> {
+  return typeof source.toJSON === 'function'
+    ? (source as { toJSON(): FileSystemSnapshot<unknown> }).toJSON()
+    : (source as FileSystemSnapshot<unknown>)
+}
+
+/** Indexes the paths of the snapshot by the path of their parent. */
+function indexChildren(snapshot: FileSystemSnapshot<unknown>) {
+  const children = new Map<string, Array<string>>()
+  Object.keys(snapshot).forEach(path => {
+    const parent = PathUtils.getParent(path)
+    const siblings = children.get(parent)
+    if (siblings) {
+      siblings.push(path)
+    } else {
+      children.set(parent, [path])
+    }
+  })
+  return children
+}
+
+/**
+ * Returns a function serializing the dirEnts of the snapshot, including the descendants of
+ * directories, to detect renames. Directories refer to the fingerprints of their children by their
+ * id in `ids`, so fingerprints of snapshots sharing the same `ids` can be compared.
+ */
+function createFingerprinter(snapshot: FileSystemSnapshot<unknown>, ids: Map<string, number>) {
+  const children = indexChildren(snapshot)
+  const fingerprints = new Map<string, string>()
+
+  function toId(fingerprint: string) {
+    let id = ids.get(fingerprint)
+    if (id === undefined) {
+      id = ids.size
+      ids.set(fingerprint, id)
+    }
+    return id
+  }
+
+  function fingerprint(path: string): string {
+    let result = fingerprints.get(path)
+    if (result !== undefined) return result
+
+    const dirEnt = snapshot[path]!
+    if (dirEnt.type === 'file') {
+      const value = dirEnt.value instanceof Uint8Array ? Array.from(dirEnt.value) : dirEnt.value
+      result = JSON.stringify(['file', value])
+    } else if (dirEnt.type === 'symlink') {
+      result = JSON.stringify(['symlink', dirEnt.target])
+    } else {
+      result = JSON.stringify([
+        'dir',
+        [...(children.get(path) ?? [])]
+          .sort()
+          .map(child => [PathUtils.getName(child), toId(fingerprint(child))]),
+      ])
+    }
+
+    fingerprints.set(path, result)
+    return result
+  }
+
+  return fingerprint
+}
+
+function groupByFingerprint(paths: Array<string>, fingerprint: (path: string) => string) {
+  const groups = new Map<string, Array<string>>()
+  paths.forEach(path => {
+    const key = fingerprint(path)
+    const group = groups.get(key)
+    if (group) {
+      group.push(path)
+    } else {
+      groups.set(key, [path])
+    }
+  })
+  return groups
+}
+
+/** Checks if the path or one of its ancestors is in `ancestors`. */
+function isSelfOrDescendantOfAny(path: string, ancestors: Set<string>) {
+  for (let current = path; ; current = PathUtils.getParent(current)) {
+    if (ancestors.has(current)) return true
+    if (current === '') return false
+  }
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                Diff File Systems                               */
+/*                                                                                */
+/**********************************************************************************/
+
+/**
+ * Lists the changes from `a` to `b`, both either a snapshot or a file system.
+ *
+ * A removed and an added dirEnt with the same contents are reported as a rename, when no other
+ * dirEnt has the same contents. The descendants of a renamed directory are not reported.
+ */
+export function diffFileSystems(a: DiffSource, b: DiffSource): Array<FileSystemChange> {
+  const before = toSnapshot(a)
+  const after = toSnapshot(b)
+
+  const removed = Object.keys(before).filter(
+    path => !(path in after) || after[path]!.type !== before[path]!.type,
+  )
+  const added = Object.keys(after).filter(
+    path => !(path in before) || after[path]!.type !== before[path]!.type,
+  )
+  const addedPaths = new Set(added)
+  const modified = Object.keys(after).filter(
+    path => path in before && !addedPaths.has(path) && !isEqualDirEnt(before[path]!, after[path]!),
+  )
+
+  // Pair removed and added dirEnts with unique contents, the shallowest first
+  const ids = new Map<string, number>()
+  const fingerprintBefore = createFingerprinter(before, ids)
+  const removedGroups = groupByFingerprint(removed, fingerprintBefore)
+  const addedGroups = groupByFingerprint(added, createFingerprinter(after, ids))
+
+  const renamed = new Array<{ path: string; oldPath: string }>()
+  const renamedPaths = new Set<string>()
+  const renamedOldPaths = new Set<string>()
+  ;[...removed].sort(PathUtils.compareDepth).forEach(oldPath => {
+    if (isSelfOrDescendantOfAny(oldPath, renamedOldPaths)) return
+    const fingerprint = fingerprintBefore(oldPath)
+    const candidates = addedGroups.get(fingerprint)
+    if (removedGroups.get(fingerprint)!.length !== 1 || candidates?.length !== 1) return
+    const path = candidates[0]!
+    if (isSelfOrDescendantOfAny(path, renamedPaths)) return
+    renamed.push({ path, oldPath })
+    renamedPaths.add(path)
+    renamedOldPaths.add(oldPath)
+  })
+
+  return [
+    ...added
+      .filter(path => !isSelfOrDescendantOfAny(path, renamedPaths))
+      .map(path => ({ type: 'added' as const, path })),
+    ...removed
+      .filter(path => !isSelfOrDescendantOfAny(path, renamedOldPaths))
+      .map(path => ({ type: 'removed' as const, path })),
+    ...modified.map(path => ({ type: 'modified' as const, path })),
+    ...renamed.map(rename => ({ type: 'renamed' as const, ...rename })),
+  ].sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0))
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                              Create Dirty Tracker                              */
+/*                                                                                */
+/**********************************************************************************/
+
+/**
+ * Tracks the changes of a file system compared to a baseline, p.ex the template a project
+ * started from. Pass the tracker as `fs` to the FileTree to read the status with `dirEnt().status`.
+ *
+ * Directories that are not added or renamed themselves are `modified` when any of their
+ * descendants changed. Changes are followed with `fs.watch`, so only the changed paths are compared
+ * with the baseline instead of the whole file system. Create it inside a reactive root, p.ex
+ * `createRoot`: the watcher is removed once the root is disposed.
+ *
+ * @example
+ * ```ts
+ * const fs = createFileSystem.from(template)
+ * const tracker = createDirtyTracker(fs, template)
+ * ```
+ */
+export function createDirtyTracker<TFileSystem extends TrackedFileSystem>(
+  fs: TFileSystem,
+  baseline: DiffSource,
+) {
+  const snapshot = toSnapshot(baseline)
+  const baselineChildren = indexChildren(snapshot)
+
+  /**
+   * Paths that changed since the tracker was created, including the descendants they had in the
+   * baseline and the file system at that time. Only these are diffed, not the whole file system.
+   */
+  const touchedPaths = new Set<string>()
+  const [version, setVersion] = createSignal(0)
+
+  function touch(path: string) {
+    if (touchedPaths.has(path)) return
+    touchedPaths.add(path)
+    // Directories are compared with their descendants to detect renames
+    baselineChildren.get(path)?.forEach(touch)
+  }
+
+  function touchTree(path: string) {
+    touch(path)
+    if (fs.exists(path) && fs.lstat(path).type === 'dir') {
+      Object.keys(fs.toJSON(path)).forEach(relativePath =>
+        touch(PathUtils.join(path, relativePath)),
+      )
+    }
+  }
+
+  /** Reads the dirEnt at the path like it is stored in a snapshot, without following symlinks. */
+  function readDirEnt(path: string): StoredDirEnt<unknown> | undefined {
+    if (!fs.exists(path)) return undefined
+    switch (fs.lstat(path).type) {
+      case 'dir':
+        return { type: 'dir' }
+      case 'symlink':
+        return { type: 'symlink', target: fs.readlink(path) }
+      case 'file':
+        return { type: 'file', value: fs.readFile(path) }
+    }
+  }
+
+  // The file system can already differ from the baseline
+  const initial = fs.toJSON()
+  Object.keys(snapshot).forEach(path => {
+    if (!(path in initial)) {
+      touch(path)
+    }
+  })
+  Object.keys(initial).forEach(path => {
+    if (!(path in snapshot) || !isEqualDirEnt(snapshot[path]!, initial[path]!)) {
+      touchTree(path)
+    }
+  })
+
+  const unwatch = fs.watch(
+    '',
+    event => {
+      if (event.type === 'rename') {
+        touchTree(event.oldPath)
+      }
+      touchTree(event.path)
+      setVersion(version => version + 1)
+    },
+    { recursive: true },
+  )
+  if (getOwner()) {
+    onCleanup(unwatch)
+  }
+
+  const changes = createMemo(() => {
+    version()
+    return untrack(() => {
+      const before: FileSystemSnapshot<unknown> = {}
+      const after: FileSystemSnapshot<unknown> = {}
+      touchedPaths.forEach(path => {
+        if (path in snapshot) {
+          before[path] = snapshot[path]!
+        }
+        const dirEnt = readDirEnt(path)
+        if (dirEnt) {
+          after[path] = dirEnt
+        }
+      })
+      return diffFileSystems(before, after)
+    })
+  })
+
+  const statuses = createMemo(() => {
+    const statuses = new Map<string, DirEntStatus>()
+    changes().forEach(change => {
+      statuses.set(change.path, change.type)
+      // Aggregate the change into the status of the ancestors
+      let path = change.path
+      while (path) {
+        path = PathUtils.getParent(path)
+        if (!statuses.has(path)) {
+          statuses.set(path, 'modified')
+        }
+      }
+    })
+    return statuses
+  })
+
+  return extend(fs, {
+    /** Changes of the file system compared to the baseline, sorted by path. */
+    changes,
+    /** Status of the path compared to the baseline, `undefined` when it is unchanged. */
+    getStatus(path: string): DirEntStatus | undefined {
+      return statuses().get(PathUtils.normalize(path))
+    },
+  })
+}
@@ -1,6 +1,17 @@
-import { createSignal, type Accessor } from 'solid-js'
-import { createStore, produce } from 'solid-js/store'
-import { PathUtils } from './utils'
+import { ReactiveMap } from '@solid-primitives/map'
+import { batch, createSignal, getOwner, onCleanup, untrack, type Accessor } from 'solid-js'
+import {
+  AlreadyExistsError,
+  InvalidArgumentError,
+  IsADirectoryError,
+  NotADirectoryError,
+  NotEmptyError,
+  NotFoundError,
+  PermissionError,
+  SymlinkLoopError,
+} from './errors'
+import type { FileSystemStorage, Serializer, StorageChanges, StoredDirEnt } from './storage'
+import { globToRegExp, PathUtils } from './utils'
 
 /**********************************************************************************/
 /*                                                                                */
@@ -8,33 +19,221 @@ import { PathUtils } from './utils'
 /*                                                                                */
 /**********************************************************************************/
 
-interface File<T> {
+interface DirEntMetadata {
+  createdAt: number
+  modifiedAt: Accessor<number>
+  touch(): void
+}
+interface File<T> extends DirEntMetadata {
   type: 'file'
   get: Accessor<T>
   set(value: T): void
+  /** Whether the contents are binary (`Uint8Array`) rather than text. */
+  binary: Accessor<boolean>
 }
-interface Dir {
+interface Dir extends DirEntMetadata {
   type: 'dir'
+  /** Types of the children of the directory, keyed by their name. */
+  children: ReactiveMap<string, DirEnt<unknown>['type']>
+}
+interface Symlink extends DirEntMetadata {
+  type: 'symlink'
+  target: string
+}
+
+type DirEnt<T> = File<T> | Dir | Symlink
+
+/** Entry returned by `readdir` with `withFileTypes`. */
+export interface DirEntry {
+  type: DirEnt<unknown>['type']
+  path: string
+  /** Whether the file's contents are binary (`Uint8Array`) rather than text. */
+  binary: boolean
+}
+
+export type WatchEvent =
+  | { type: 'create'; path: string; dirEntType: DirEnt<unknown>['type'] }
+  | { type: 'change'; path: string }
+  | { type: 'rename'; oldPath: string; path: string }
+  | { type: 'delete'; path: string }
+
+export type WatchListener = (event: WatchEvent) => void
+
+interface Watcher {
+  path: string
+  recursive: boolean
+  listener: WatchListener
+}
+
+/** Record of dirEnts keyed by their path relative to the snapshot's root. */
+export type FileSystemSnapshot<T = string> = Record<string, StoredDirEnt<T>>
+
+export interface Stats {
+  type: DirEnt<unknown>['type']
+  /** Size of the file's contents in bytes. Directories have a size of 0. */
+  size: number
+  /** Whether the file's contents are binary (`Uint8Array`) rather than text. */
+  binary: boolean
+  /** Timestamp in milliseconds of when the dirEnt was created. */
+  createdAt: number
+  /** Timestamp in milliseconds of when the dirEnt was last written to or renamed. */
+  modifiedAt: number
+}
+
+export interface GrepMatch {
+  path: string
+  /** 1-based line number of the match. */
+  line: number
+  /** 1-based column number of the match. */
+  column: number
+  /** The matched text. */
+  match: string
+  /** The full line containing the match. */
+  text: string
+}
+
+/** Permissions of a path, inherited by its descendants. */
+export interface Permissions {
+  /**
+   * File contents can not be written,
+   * and no dirEnts can be created in, moved out of or removed from directories.
+   */
+  readonly?: boolean
+  /** The dirEnt can not be renamed, moved or removed. */
+  locked?: boolean
 }
 
-type DirEnt<T> = File<T> | Dir
+export interface FileSystemOptions<T> {
+  /** Storage to hydrate the file system from and to persist its changes to. */
+  storage?: FileSystemStorage<T | Uint8Array>
+  /**
+   * Delay in milliseconds before pending changes are flushed to the storage.
+   * When omitted, changes are flushed in a microtask after the mutation.
+   */
+  debounce?: number
+  /**
+   * Called when the storage fails to load, or when changes fail to be saved to the storage,
+   * p.ex when its quota is exceeded. The changes stay pending and are saved again with the next flush.
+   * Without it, failures surface as unhandled rejections.
+   */
+  onError?(error: unknown): void
+  /** Computes the size of a file's contents, used by `stat`. */
+  getSize?(value: T | Uint8Array): number
+  /**
+   * Initial permissions keyed by path, p.ex `{ 'package.json': { locked: true } }`.
+   * They are not enforced on changes from the storage, nor on the snapshot of `createFileSystem.from`.
+   */
+  permissions?: Record<string, Permissions>
+}
 
 export type FileSystem<T> = ReturnType<typeof createFileSystem<T>>
 
+/**
+ * Subset of the file system API implemented by composed file systems,
+ * p.ex `createMountFileSystem` and `createOverlayFileSystem`.
+ * Symlinks are optional, layers without them only contain files and dirs.
+ */
+export type ComposableFileSystem<T = string> = Pick<
+  FileSystem<T>,
+  'exists' | 'getType' | 'readdir' | 'readFile' | 'writeFile' | 'mkdir' | 'rename' | 'rm'
+> &
+  Partial<Pick<FileSystem<T>, 'lstat' | 'readlink' | 'symlink'>>
+
+/** Maximum amount of symlinks followed while resolving a path, before it is considered a loop. */
+const MAX_SYMLINK_DEPTH = 40
+
+/**
+ * Resolves the target of a symlink to a path from the root.
+ * Targets starting with `/` are resolved from the root, others from the symlink's parent.
+ */
+function resolveLinkTarget(linkPath: string, target: string) {
+  return PathUtils.resolve(PathUtils.getParent(linkPath), target)
+}
+
+function toStoredDirEnt<T>(dirEnt: DirEnt<T>): StoredDirEnt<T> {
+  switch (dirEnt.type) {
+    case 'dir':
+      return { type: 'dir' }
+    case 'symlink':
+      return { type: 'symlink', target: dirEnt.target }
+    case 'file':
+      return { type: 'file', value: dirEnt.get() }
+  }
+}
+
+function fromStoredDirEnt<T>(dirEnt: StoredDirEnt<T>): DirEnt<T> {
+  switch (dirEnt.type) {
+    case 'dir':
+      return createDir()
+    case 'symlink':
+      return createSymlink(dirEnt.target)
+    case 'file':
+      return createFile(dirEnt.value)
+  }
+}
+
 /**********************************************************************************/
 /*                                                                                */
 /*                                   Create File                                  */
 /*                                                                                */
 /**********************************************************************************/
 
+function createMetadata(): DirEntMetadata {
+  const [modifiedAt, setModifiedAt] = createSignal(Date.now())
+  return {
+    createdAt: untrack(modifiedAt),
+    modifiedAt,
+    touch() {
+      setModifiedAt(Date.now())
+    },
+  }
+}
+
 export function createFile<T>(initial: T): File<T> {
   const [get, set] = createSignal<T>(initial)
+  const [binary, setBinary] = createSignal(initial instanceof Uint8Array)
 
   return {
     type: 'file',
     get,
-    set,
+    set(value) {
+      batch(() => {
+        set(() => value)
+        setBinary(value instanceof Uint8Array)
+      })
+    },
+    binary,
+    ...createMetadata(),
+  }
+}
+
+export function createDir(): Dir {
+  return {
+    type: 'dir',
+    children: new ReactiveMap(),
+    ...createMetadata(),
+  }
+}
+
+export function createSymlink(target: string): Symlink {
+  return {
+    type: 'symlink',
+    target,
+    ...createMetadata(),
+  }
+}
+
+const textEncoder = new TextEncoder()
+const textDecoder = new TextDecoder()
+
+function getDefaultSize(value: unknown) {
+  if (typeof value === 'string') {
+    return textEncoder.encode(value).byteLength
+  }
+  if (ArrayBuffer.isView(value) || value instanceof ArrayBuffer) {
+    return value.byteLength
   }
+  return 0
 }
 
 /**********************************************************************************/
@@ -43,153 +242,858 @@ export function createFile<T>(initial: T): File<T> {
 /*                                                                                */
 /**********************************************************************************/
 
-export function createFileSystem<T = string>() {
-  const [dirEnts, setDirEnts] = createStore<Record<string, DirEnt<T>>>({})
+export function createFileSystem<T = string>(options: FileSystemOptions<T> = {}) {
+  /**
+   * Flat index of all dirEnts keyed by path, starting with the root directory.
+   * Reads are tracked per path, while the children of each directory are tracked separately:
+   * adding a dirEnt only notifies the readers of its parent directory.
+   */
+  const dirEnts = new ReactiveMap<string, DirEnt<T | Uint8Array>>([['', createDir()]])
+  const watchers = new Set<Watcher>()
+  const permissions = new ReactiveMap<string, Permissions>(
+    Object.entries(options.permissions ?? {}).map(([path, permission]) => [
+      PathUtils.normalize(path),
+      permission,
+    ]),
+  )
+  const pendingPaths = new Set<string>()
+  let flushScheduled = false
+  let applyingStorageChanges = false
+  let flushTimeout: ReturnType<typeof setTimeout> | undefined
 
-  function assertPathExists(path: string) {
+  function isWatched(watcher: Watcher, path: string) {
+    if (path === watcher.path) return true
+    if (watcher.recursive) {
+      return PathUtils.isSelfOrDescendant(path, watcher.path)
+    }
+    return PathUtils.getParent(path) === watcher.path
+  }
+
+  /** Updates the modification time of the affected dirEnt and its parent directories. */
+  function touch(event: WatchEvent) {
+    const paths =
+      event.type === 'rename'
+        ? [event.path, PathUtils.getParent(event.path), PathUtils.getParent(event.oldPath)]
+        : event.type === 'change'
+        ? [event.path]
+        : [PathUtils.getParent(event.path)]
+    new Set(paths).forEach(path => dirEnts.get(path)?.touch())
+  }
+
+  function emit(event: WatchEvent) {
+    touch(event)
+    watchers.forEach(watcher => {
+      if (
+        isWatched(watcher, event.path) ||
+        (event.type === 'rename' && isWatched(watcher, event.oldPath))
+      ) {
+        watcher.listener(event)
+      }
+    })
+  }
+
+  function getDir(path: string) {
+    const dirEnt = dirEnts.get(path)
+    return dirEnt?.type === 'dir' ? dirEnt : undefined
+  }
+
+  /** Adds the dirEnt to the index and to the children of its parent directory. */
+  function setDirEnt(path: string, dirEnt: DirEnt<T | Uint8Array>) {
+    dirEnts.set(path, dirEnt)
+    getDir(PathUtils.getParent(path))?.children.set(PathUtils.getName(path)!, dirEnt.type)
+  }
+
+  /** Removes the dirEnt from the index and from the children of its parent directory. */
+  function deleteDirEnt(path: string) {
+    dirEnts.delete(path)
+    getDir(PathUtils.getParent(path))?.children.delete(PathUtils.getName(path)!)
+  }
+
+  /** Returns the paths of all descendants of the given path, ancestors before descendants. */
+  function getDescendants(path: string): Array<string> {
+    const descendants = new Array<string>()
+    getDir(path)?.children.forEach((_, name) => {
+      const childPath = PathUtils.join(path, name)
+      descendants.push(childPath, ...getDescendants(childPath))
+    })
+    return descendants
+  }
+
+  function assertDirExists(path: string, syscall: string) {
+    assertPathExists(path, syscall)
+    if (!getDir(path)) {
+      throw new NotADirectoryError(syscall, path)
+    }
+  }
+
+  /** Returns the permissions of the path, merged with the ones inherited from its ancestors. */
+  function getPermissions(path: string): Required<Permissions> {
     const parts = path.split('/')
-    const pathExists = parts
-      .map((_, index) => parts.slice(0, index + 1).join('/'))
-      .filter(Boolean)
-      .every(path => path in dirEnts)
+    const result = { readonly: false, locked: false }
+    for (let index = 0; index <= parts.length; index++) {
+      const permission = permissions.get(parts.slice(0, index).join('/'))
+      result.readonly ||= !!permission?.readonly
+      result.locked ||= !!permission?.locked
+    }
+    return result
+  }
 
-    if (!pathExists) {
-      throw `Path is invalid ${path}`
+  /**
+   * Throws if the given path is readonly, the error reports the affected path(s).
+   * Changes applied from the storage are not subject to permissions.
+   */
+  function assertWritable(path: string, syscall: string, affectedPath = path, dest?: string) {
+    if (!applyingStorageChanges && getPermissions(path).readonly) {
+      throw new PermissionError(syscall, affectedPath, dest)
     }
   }
 
-  function readdir(
-    path: string,
-    options: { withFileTypes: true },
-  ): Array<{ type: 'dir' | 'file'; path: string }>
+  /** Throws if the path, one of its ancestors or one of its descendants is locked. */
+  function assertUnlocked(path: string, syscall: string, dest?: string) {
+    if (applyingStorageChanges) return
+
+    let locked = getPermissions(path).locked
+    permissions.forEach((permission, _path) => {
+      if (permission.locked && PathUtils.isAncestor(_path, path)) {
+        locked = true
+      }
+    })
+
+    if (locked) {
+      throw new PermissionError(syscall, path, dest)
+    }
+  }
+
+  function hydrate(entries: Record<string, StoredDirEnt<T | Uint8Array>>) {
+    batch(() =>
+      Object.entries(entries)
+        .filter(([path]) => path !== '')
+        .sort(([a], [b]) => PathUtils.compareDepth(a, b))
+        .forEach(([path, dirEnt]) => setDirEnt(path, fromStoredDirEnt(dirEnt))),
+    )
+  }
+
+  /** Applies changes made outside of the file system to the storage, without saving them back. */
+  function applyStorageChanges(changes: StorageChanges<T | Uint8Array>) {
+    applyingStorageChanges = true
+    try {
+      batch(() => {
+        const created: FileSystemSnapshot<T | Uint8Array> = {}
+        Object.entries(changes).forEach(([path, dirEnt]) => {
+          const current = dirEnts.get(path)
+          if (current && current.type !== dirEnt?.type) {
+            fs.rm(path, { recursive: true })
+          }
+          if (dirEnt) {
+            created[path] = dirEnt
+          }
+        })
+        fs.load(created)
+      })
+    } finally {
+      applyingStorageChanges = false
+    }
+  }
+
+  function schedulePending(paths: Array<string>) {
+    paths.forEach(path => pendingPaths.add(path))
+
+    if (options.debounce !== undefined) {
+      clearTimeout(flushTimeout)
+      flushTimeout = setTimeout(scheduledFlush, options.debounce)
+    } else if (!flushScheduled) {
+      flushScheduled = true
+      queueMicrotask(scheduledFlush)
+    }
+  }
+
+  /** Flushes the pending changes of mutations, nobody awaits it so failures are reported. */
+  function scheduledFlush() {
+    fs.flush().catch(error => {
+      if (!options.onError) throw error
+      options.onError(error)
+    })
+  }
+
+  /**
+   * Resolves the symlinks in the given path to the path of the dirEnt in the store.
+   * The last segment is only followed if `followLast` is set.
+   */
+  function resolvePath(path: string, syscall: string, followLast = true, depth = 0): string {
+    const parts = PathUtils.normalize(path).split('/').filter(Boolean)
+    let resolved = ''
+
+    parts.forEach((part, index) => {
+      resolved = resolved ? `${resolved}/${part}` : part
+
+      const dirEnt = dirEnts.get(resolved)
+
+      if (dirEnt?.type !== 'symlink' || (!followLast && index === parts.length - 1)) {
+        return
+      }
+
+      if (depth >= MAX_SYMLINK_DEPTH) {
+        throw new SymlinkLoopError(syscall, path)
+      }
+
+      resolved = resolvePath(resolveLinkTarget(resolved, dirEnt.target), syscall, true, depth + 1)
+    })
+
+    return resolved
+  }
+
+  function assertPathExists(path: string, syscall: string) {
+    if (!dirEnts.has(path)) {
+      throw new NotFoundError(syscall, path)
+    }
+  }
+
+  function readdir(path: string, options: { withFileTypes: true }): Array<DirEntry>
   function readdir(path: string): Array<string>
   function readdir(path: string, options?: { withFileTypes?: boolean }) {
     path = PathUtils.normalize(path)
 
-    assertPathExists(path)
+    // Children of a symlinked directory are listed relative to the symlink
+    const resolvedPath = resolvePath(path, 'readdir')
+
+    assertDirExists(resolvedPath, 'readdir')
+
+    const entries = new Array<DirEntry>()
+    getDir(resolvedPath)!.children.forEach((type, name) => {
+      const dirEnt = type === 'file' ? dirEnts.get(PathUtils.join(resolvedPath, name)) : undefined
+      entries.push({
+        type,
+        path: PathUtils.join(path, name),
+        binary: dirEnt?.type === 'file' && dirEnt.binary(),
+      })
+    })
 
     if (options?.withFileTypes) {
-      return Object.entries(dirEnts)
-        .filter(([_path]) => PathUtils.getParent(_path) === path && _path !== path)
-        .map(([path, file]) => ({
-          type: file.type,
-          path,
-        }))
+      return entries
     }
 
-    return Object.keys(dirEnts).filter(_path => PathUtils.getParent(_path) === path)
+    return entries.map(({ path }) => path)
+  }
+
+  /**
+   * Returns the contents of the file as they are stored, or converted to the given encoding:
+   * `utf8` decodes binary contents to a string, `null` encodes text contents to bytes.
+   * The last overload passes the options through as is, p.ex from a composed file system.
+   */
+  function readFile(path: string): T | Uint8Array
+  function readFile(path: string, options: { encoding: 'utf8' }): string
+  function readFile(path: string, options: { encoding: null }): Uint8Array
+  function readFile(path: string, options?: { encoding?: 'utf8' | null }): T | Uint8Array | string
+  function readFile(path: string, options?: { encoding?: 'utf8' | null }) {
+    path = resolvePath(path, 'readFile')
+
+    assertPathExists(path, 'readFile')
+
+    const dirEnt = dirEnts.get(path)!
+
+    if (dirEnt.type !== 'file') {
+      throw new IsADirectoryError('readFile', path)
+    }
+
+    const value = dirEnt.get()
+
+    if (options?.encoding === undefined) {
+      return value
+    }
+
+    if (options.encoding === null) {
+      if (value instanceof Uint8Array) return value
+      if (typeof value === 'string') return textEncoder.encode(value)
+    } else {
+      if (typeof value === 'string') return value
+      if (value instanceof Uint8Array) return textDecoder.decode(value)
+    }
+
+    // Contents are neither text nor bytes
+    throw new InvalidArgumentError('readFile', path)
+  }
+
+  function createStats(path: string, syscall: string): Stats {
+    assertPathExists(path, syscall)
+
+    // Bound to the dirEnt rather than its path, so the stats follow renames and outlive removal
+    const dirEnt = dirEnts.get(path)!
+
+    return {
+      get type() {
+        return dirEnt.type
+      },
+      get size() {
+        switch (dirEnt.type) {
+          case 'dir':
+            return 0
+          case 'symlink':
+            return getDefaultSize(dirEnt.target)
+          case 'file':
+            return (options.getSize ?? getDefaultSize)(dirEnt.get())
+        }
+      },
+      get binary() {
+        return dirEnt.type === 'file' && dirEnt.binary()
+      },
+      get createdAt() {
+        return dirEnt.createdAt
+      },
+      get modifiedAt() {
+        return dirEnt.modifiedAt()
+      },
+    }
+  }
+
+  function toJSON(path?: string): FileSystemSnapshot<T | Uint8Array>
+  function toJSON(
+    path: string,
+    options: { serializer: Serializer<T> },
+  ): FileSystemSnapshot<string | Uint8Array>
+  function toJSON(path = '', options?: { serializer?: Serializer<T> }) {
+    path = resolvePath(path, 'toJSON')
+
+    assertPathExists(path, 'toJSON')
+
+    return Object.fromEntries(
+      getDescendants(path).map(_path => {
+        const relativePath = PathUtils.relative(path, _path)
+        const stored = toStoredDirEnt(dirEnts.get(_path)!)
+        // Binary contents are kept as bytes
+        if (
+          stored.type === 'file' &&
+          options?.serializer &&
+          !(stored.value instanceof Uint8Array)
+        ) {
+          return [relativePath, { type: 'file', value: options.serializer.serialize(stored.value) }]
+        }
+        return [relativePath, stored]
+      }),
+    )
+  }
+
+  function load(snapshot: FileSystemSnapshot<T | Uint8Array>, options?: { path?: string }): void
+  function load(
+    snapshot: FileSystemSnapshot<string | Uint8Array>,
+    options: { path?: string; serializer: Serializer<T> },
+  ): void
+  function load(
+    snapshot: FileSystemSnapshot<T | string | Uint8Array>,
+    options?: { path?: string; serializer?: Serializer<T> },
+  ) {
+    const base = PathUtils.normalize(options?.path ?? '')
+
+    batch(() => {
+      if (base) {
+        fs.mkdir(base, { recursive: true })
+      }
+      Object.entries(snapshot)
+        .sort(([a], [b]) => PathUtils.compareDepth(a, b))
+        .forEach(([relativePath, dirEnt]) => {
+          const path = [base, PathUtils.normalize(relativePath)].filter(Boolean).join('/')
+          if (dirEnt.type === 'dir') {
+            fs.mkdir(path, { recursive: true })
+            return
+          }
+          const parent = PathUtils.getParent(path)
+          if (parent) {
+            fs.mkdir(parent, { recursive: true })
+          }
+          if (dirEnt.type === 'symlink') {
+            if (fs.exists(path)) {
+              fs.rm(path)
+            }
+            fs.symlink(dirEnt.target, path)
+            return
+          }
+          // Without a serializer the overloads only admit values of the file system
+          fs.writeFile(
+            path,
+            options?.serializer && typeof dirEnt.value === 'string'
+              ? options.serializer.deserialize(dirEnt.value)
+              : (dirEnt.value as T | Uint8Array),
+          )
+        })
+    })
   }
 
   const fs = {
+    /** Symlinks are not followed: a dangling symlink exists. */
     exists(path: string) {
-      return path in dirEnts
+      try {
+        return dirEnts.has(resolvePath(path, 'exists', false))
+      } catch {
+        return false
+      }
     },
+    /** Returns the type of the dirEnt at the given path, following symlinks. */
     getType(path: string): DirEnt<T>['type'] {
-      path = PathUtils.normalize(path)
+      path = resolvePath(path, 'getType')
 
-      assertPathExists(path)
+      assertPathExists(path, 'getType')
 
-      return dirEnts[path]!.type
+      return dirEnts.get(path)!.type
     },
     readdir,
+    /** Returns reactive metadata of the dirEnt at the given path, following symlinks. */
+    stat(path: string): Stats {
+      return createStats(resolvePath(path, 'stat'), 'stat')
+    },
+    /** Returns reactive metadata of the dirEnt at the given path, without following symlinks. */
+    lstat(path: string): Stats {
+      return createStats(resolvePath(path, 'lstat', false), 'lstat')
+    },
+    /** Creates a symlink at `path` pointing to `target`, relative to the symlink's parent. */
+    symlink(target: string, path: string) {
+      path = resolvePath(path, 'symlink', false)
+
+      assertDirExists(PathUtils.getParent(path), 'symlink')
+
+      if (dirEnts.has(path)) {
+        throw new AlreadyExistsError('symlink', path)
+      }
+
+      assertWritable(PathUtils.getParent(path), 'symlink', path)
+
+      setDirEnt(path, createSymlink(target))
+      emit({ type: 'create', path, dirEntType: 'symlink' })
+    },
+    /** Returns the target of the symlink at the given path. */
+    readlink(path: string) {
+      path = resolvePath(path, 'readlink', false)
+
+      assertPathExists(path, 'readlink')
+
+      const dirEnt = dirEnts.get(path)!
+
+      if (dirEnt.type !== 'symlink') {
+        throw new InvalidArgumentError('readlink', path)
+      }
+
+      return dirEnt.target
+    },
+    /**
+     * Serializes the dirEnts under the given path (defaults to the root) into a snapshot.
+     * Non-string values can be converted with a custom `serializer`.
+     */
+    toJSON,
+    /**
+     * Writes the dirEnts of a snapshot into the file system, relative to `options.path`.
+     * Existing dirEnts that are not part of the snapshot are left untouched.
+     */
+    load,
     mkdir(path: string, options?: { recursive?: boolean }) {
-      path = PathUtils.normalize(path)
+      path = resolvePath(path, 'mkdir', false)
 
       if (options?.recursive) {
         const parts = path.split('/')
-        parts.forEach((_, index) => {
-          setDirEnts(parts.slice(0, index).join('/'), { type: 'dir' })
-        })
+        batch(() =>
+          parts.forEach((_, index) => {
+            const ancestor = parts.slice(0, index + 1).join('/')
+            if (dirEnts.has(ancestor)) {
+              assertDirExists(ancestor, 'mkdir')
+              return
+            }
+            assertWritable(PathUtils.getParent(ancestor), 'mkdir', ancestor)
+            setDirEnt(ancestor, createDir())
+            emit({ type: 'create', path: ancestor, dirEntType: 'dir' })
+          }),
+        )
         return
       }
 
-      assertPathExists(PathUtils.getParent(path))
+      assertDirExists(PathUtils.getParent(path), 'mkdir')
+
+      if (dirEnts.has(path)) {
+        throw new AlreadyExistsError('mkdir', path)
+      }
 
-      setDirEnts(path, { type: 'dir' })
+      assertWritable(PathUtils.getParent(path), 'mkdir', path)
+
+      setDirEnt(path, createDir())
+      emit({ type: 'create', path, dirEntType: 'dir' })
+    },
+    readFile,
+    /** Returns the permissions of the path, including the ones inherited from its ancestors. */
+    getPermissions(path: string) {
+      return getPermissions(PathUtils.normalize(path))
     },
-    readFile(path: string) {
+    /** Sets the permissions of the path and its descendants, `undefined` removes them. */
+    setPermissions(path: string, permission: Permissions | undefined) {
       path = PathUtils.normalize(path)
+      if (permission) {
+        permissions.set(path, permission)
+      } else {
+        permissions.delete(path)
+      }
+    },
+    rename(previous: string, next: string) {
+      previous = resolvePath(previous, 'rename', false)
+      next = resolvePath(next, 'rename', false)
 
-      assertPathExists(path)
+      if (!dirEnts.has(previous)) {
+        throw new NotFoundError('rename', previous, next)
+      }
 
-      const dirEnt = dirEnts[path]!
+      if (dirEnts.has(next)) {
+        throw new AlreadyExistsError('rename', previous, next)
+      }
 
-      if (dirEnt.type === 'dir') {
-        throw `Path is not a file ${path}`
+      if (PathUtils.isAncestor(next, previous)) {
+        throw new InvalidArgumentError('rename', previous, next)
       }
 
-      return dirEnt.get()
+      assertDirExists(PathUtils.getParent(next), 'rename')
+      assertUnlocked(previous, 'rename', next)
+      assertWritable(PathUtils.getParent(previous), 'rename', previous, next)
+      assertWritable(PathUtils.getParent(next), 'rename', previous, next)
+
+      const dirEnt = dirEnts.get(previous)!
+
+      // Explicit permissions move along with the dirEnt
+      const rebasedPermissions = new Array<[string, Permissions]>()
+      permissions.forEach((permission, path) => {
+        if (PathUtils.isSelfOrDescendant(path, previous)) {
+          rebasedPermissions.push([path, permission])
+        }
+      })
+
+      batch(() => {
+        rebasedPermissions.forEach(([path]) => permissions.delete(path))
+        rebasedPermissions.forEach(([path, permission]) =>
+          permissions.set(PathUtils.rebase(path, previous, next), permission),
+        )
+        // Descendants keep their place in the children of their parent, only their path changes
+        getDescendants(previous).forEach(path => {
+          const descendant = dirEnts.get(path)!
+          dirEnts.delete(path)
+          dirEnts.set(PathUtils.rebase(path, previous, next), descendant)
+        })
+        deleteDirEnt(previous)
+        setDirEnt(next, dirEnt)
+      })
+
+      emit({ type: 'rename', oldPath: previous, path: next })
     },
-    rename(previous: string, next: string) {
-      previous = PathUtils.normalize(previous)
-      next = PathUtils.normalize(next)
+    rm(path: string, options?: { force?: boolean; recursive?: boolean }) {
+      path = resolvePath(path, 'rm', false)
 
-      if (fs.exists(next)) {
-        console.error(dirEnts)
-        throw `Path ${next} already exists.`
+      if (options?.force && !dirEnts.has(path)) {
+        return
       }
 
-      if (!fs.exists(previous)) {
-        console.error(`Path does not exist: ${previous}`)
-        return
+      assertPathExists(path, 'rm')
+
+      if (path === '') {
+        throw new InvalidArgumentError('rm', path)
       }
 
-      setDirEnts(
-        produce(files => {
-          Object.keys(dirEnts).forEach(path => {
-            if (PathUtils.isAncestor(path, previous) || path === previous) {
-              const newPath = path.replace(previous, next)
-              const file = files[path]!
-              files[newPath] = file
-              delete files[path]
-            }
-          })
-        }),
+      assertUnlocked(path, 'rm')
+
+      const descendants = getDescendants(path)
+
+      if (!options?.recursive && !options?.force && descendants.length > 0) {
+        throw new NotEmptyError('rm', path)
+      }
+
+      // The descendants are removed from their dirs as well
+      ;[path, ...descendants].forEach(_path =>
+        assertWritable(PathUtils.getParent(_path), 'rm', path),
       )
+
+      // Explicit permissions do not carry over to dirEnts created later at the same paths
+      const removedPermissions = new Array<string>()
+      permissions.forEach((_, _path) => {
+        if (PathUtils.isSelfOrDescendant(_path, path)) {
+          removedPermissions.push(_path)
+        }
+      })
+
+      batch(() => {
+        removedPermissions.forEach(path => permissions.delete(path))
+        descendants.forEach(path => dirEnts.delete(path))
+        deleteDirEnt(path)
+      })
+
+      // Emit the deepest paths first, so descendants are reported before their ancestors
+      ;[path, ...descendants].reverse().forEach(path => emit({ type: 'delete', path }))
     },
-    rm(path: string, options?: { force?: boolean; recursive?: boolean }) {
-      path = PathUtils.normalize(path)
+    writeFile(path: string, source: T | Uint8Array) {
+      // Writing to a symlink writes to its target
+      path = resolvePath(path, 'writeFile')
+      assertDirExists(PathUtils.getParent(path), 'writeFile')
+
+      const dirEnt = dirEnts.get(path)
+
+      if (dirEnt?.type === 'dir') {
+        throw new IsADirectoryError('writeFile', path)
+      }
+
+      // Existing files can not be written to, new files can not be created in readonly dirs
+      assertWritable(dirEnt ? path : PathUtils.getParent(path), 'writeFile', path)
+
+      if (dirEnt?.type === 'file') {
+        dirEnt.set(source)
+        emit({ type: 'change', path })
+      } else {
+        setDirEnt(path, createFile(source))
+        emit({ type: 'create', path, dirEntType: 'file' })
+      }
+    },
+    /** Copies the contents of a file into a new reactive file at `dest`. */
+    copyFile(src: string, dest: string) {
+      src = resolvePath(src, 'copyFile')
+      dest = resolvePath(dest, 'copyFile')
+
+      fs.writeFile(dest, fs.readFile(src))
+    },
+    /**
+     * Copies a file or directory to `dest`.
+     * - Directories are only copied with `recursive`.
+     * - Existing paths are only overwritten with `force`.
+     * - Symlinks are copied as symlinks.
+     */
+    cp(src: string, dest: string, options?: { recursive?: boolean; force?: boolean }) {
+      src = resolvePath(src, 'cp', false)
+      dest = resolvePath(dest, 'cp', false)
+
+      assertPathExists(src, 'cp')
 
-      if (!options || !options.force) {
-        assertPathExists(path)
+      if (fs.exists(dest) && !options?.force) {
+        throw new AlreadyExistsError('cp', src, dest)
       }
 
-      if (!options || !options.recursive) {
-        const _dirEnts = Object.keys(dirEnts).filter(value => {
-          if (value === path) return false
-          return value.includes(path)
+      const dirEnt = dirEnts.get(src)!
+
+      if (dirEnt.type === 'symlink') {
+        batch(() => {
+          if (fs.exists(dest)) {
+            fs.rm(dest)
+          }
+          fs.symlink(dirEnt.target, dest)
         })
+        return
+      }
+
+      if (dirEnt.type === 'file') {
+        fs.copyFile(src, dest)
+        return
+      }
 
-        if (_dirEnts.length > 0 && !options?.force) {
-          throw `Directory is not empty ${_dirEnts}`
+      if (!options?.recursive) {
+        throw new IsADirectoryError('cp', src, dest)
+      }
+
+      if (PathUtils.isSelfOrDescendant(dest, src)) {
+        throw new InvalidArgumentError('cp', src, dest)
+      }
+
+      if (fs.exists(dest) && fs.getType(dest) === 'file') {
+        throw new NotADirectoryError('cp', src, dest)
+      }
+
+      const snapshot = toJSON(src)
+
+      batch(() => {
+        if (!fs.exists(dest)) {
+          fs.mkdir(dest)
         }
+        load(snapshot, { path: dest })
+      })
+    },
+    /**
+     * Returns the paths under `cwd` matching the glob-pattern, relative to `cwd`.
+     * Paths matching any of the `ignore`-patterns, or descendants of them, are excluded.
+     *
+     * Updates reactively when dirEnts are added, renamed or removed.
+     */
+    glob(pattern: string, options?: { cwd?: string; ignore?: Array<string> }) {
+      const cwd = PathUtils.normalize(options?.cwd ?? '')
+
+      assertPathExists(cwd, 'glob')
+
+      const regex = globToRegExp(pattern)
+      const ignore = options?.ignore?.map(globToRegExp) ?? []
+
+      function isIgnored(relativePath: string) {
+        const parts = relativePath.split('/')
+        return parts.some((_, index) => {
+          const ancestor = parts.slice(0, index + 1).join('/')
+          return ignore.some(regex => regex.test(ancestor))
+        })
+      }
+
+      return getDescendants(cwd)
+        .map(path => PathUtils.relative(cwd, path))
+        .filter(relativePath => regex.test(relativePath) && !isIgnored(relativePath))
+        .sort()
+    },
+    /**
+     * Searches the string contents of the files under `cwd` for the given query.
+     * Files can be narrowed down with an `include` glob-pattern, relative to `cwd`.
+     *
+     * Updates reactively when the contents of the searched files change.
+     */
+    grep(query: string | RegExp, options?: { cwd?: string; include?: string }) {
+      const cwd = PathUtils.normalize(options?.cwd ?? '')
+
+      assertPathExists(cwd, 'grep')
+
+      const regex =
+        typeof query === 'string'
+          ? new RegExp(query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g')
+          : new RegExp(query.source, query.flags.includes('g') ? query.flags : `${query.flags}g`)
+
+      const paths = options?.include
+        ? fs.glob(options.include, { cwd }).map(path => PathUtils.join(cwd, path))
+        : getDescendants(cwd)
+
+      return paths.flatMap(path => {
+        const dirEnt = dirEnts.get(path)
+        if (dirEnt?.type !== 'file') return []
+
+        const value = dirEnt.get()
+        if (typeof value !== 'string') return []
+
+        return value.split('\n').flatMap((text, index) => {
+          const matches = new Array<GrepMatch>()
+          regex.lastIndex = 0
+          let match: RegExpExecArray | null
+          while ((match = regex.exec(text))) {
+            matches.push({ path, line: index + 1, column: match.index + 1, match: match[0], text })
+            // Prevent infinite loops on zero-length matches
+            if (match[0] === '') {
+              regex.lastIndex++
+            }
+          }
+          return matches
+        })
+      })
+    },
+    /**
+     * Listens to changes of the given path.
+     * - Without `recursive` the listener is called for the path itself and its direct children.
+     * - With `recursive` the listener is called for the path and all of its descendants.
+     *
+     * Returns a function to stop watching. When called inside a reactive owner,
+     * the watcher is also removed when the owner is cleaned up.
+     */
+    watch(path: string, listener: WatchListener, options?: { recursive?: boolean }) {
+      const watcher: Watcher = {
+        path: PathUtils.normalize(path),
+        recursive: !!options?.recursive,
+        listener,
+      }
+      watchers.add(watcher)
+
+      const unwatch = () => {
+        watchers.delete(watcher)
+      }
+      if (getOwner()) {
+        onCleanup(unwatch)
+      }
+      return unwatch
+    },
+    /** Resolves once the file system is hydrated from its storage, rejects when it fails to load. */
+    ready: Promise.resolve(),
+    /** Writes all pending changes to the storage, rejects when the storage fails to save them. */
+    flush(): Promise<void> {
+      clearTimeout(flushTimeout)
+      flushScheduled = false
+
+      if (!options.storage || pendingPaths.size === 0) {
+        return Promise.resolve()
       }
 
-      setDirEnts(
-        produce(files => {
-          Object.keys(files)
-            .filter(value => value.includes(path))
-            .forEach(path => delete files[path])
+      const storage = options.storage
+      const changes: StorageChanges<T | Uint8Array> = {}
+      untrack(() =>
+        pendingPaths.forEach(path => {
+          const dirEnt = dirEnts.get(path)
+          changes[path] = dirEnt && toStoredDirEnt(dirEnt)
         }),
       )
+      pendingPaths.clear()
+
+      // Synchronous storages, p.ex `localStorage`, throw instead of rejecting
+      return new Promise<void>(resolve => resolve(storage.save(changes))).catch(error => {
+        // Keep the changes pending, their current state is saved with the next flush
+        Object.keys(changes).forEach(path => pendingPaths.add(path))
+        throw error
+      })
     },
-    writeFile(path: string, source: T) {
-      path = PathUtils.normalize(path)
-      assertPathExists(PathUtils.getParent(path))
+  }
 
-      const dirEnt = dirEnts[path]
+  if (options.storage) {
+    const storage = options.storage
+    const entries = storage.load()
 
-      if (dirEnt?.type === 'dir') {
-        throw `A directory already exist with the same name: ${path}`
+    // Apply changes made to the storage from outside of the file system once it is hydrated
+    let unsubscribe: (() => void) | undefined
+    let disposed = false
+    const subscribe = () => {
+      if (!disposed) {
+        unsubscribe = storage.subscribe?.(applyStorageChanges)
       }
+    }
+    if (getOwner()) {
+      onCleanup(() => {
+        disposed = true
+        unsubscribe?.()
+      })
+    }
 
-      if (dirEnt) {
-        dirEnt.set(source)
-      } else {
-        setDirEnts(path, createFile(source))
+    if (entries instanceof Promise) {
+      fs.ready = entries.then(hydrate).then(subscribe)
+      // Nobody has to await ready, so failures to load are reported as well
+      if (options.onError) {
+        fs.ready.catch(options.onError)
       }
-    },
+    } else {
+      hydrate(entries)
+      subscribe()
+    }
+
+    // Collect the paths affected by each mutation and flush them to the storage
+    fs.watch(
+      '',
+      event => {
+        if (applyingStorageChanges) return
+        if (event.type !== 'rename') {
+          schedulePending([event.path])
+          return
+        }
+        const paths = [event.path, ...getDescendants(event.path)]
+        schedulePending([
+          ...paths,
+          ...paths.map(path => PathUtils.rebase(path, event.path, event.oldPath)),
+        ])
+      },
+      { recursive: true },
+    )
   }
 
   return fs
 }
+
+/**
+ * Creates a file system and populates it with the given snapshot.
+ * The type of the values is not inferred from the snapshot, it defaults to `string`.
+ */
+createFileSystem.from = function <T = string>(
+  snapshot: FileSystemSnapshot<NoInfer<T> | string | Uint8Array>,
+  options?: FileSystemOptions<T> & { serializer?: Serializer<T> },
+) {
+  // Permissions are applied once populated, so readonly dirs can be filled
+  const { permissions, ...rest } = options ?? {}
+  const fs = createFileSystem<T>(rest)
+  if (options?.serializer) {
+    fs.load(snapshot as FileSystemSnapshot<string | Uint8Array>, { serializer: options.serializer })
+  } else {
+    fs.load(snapshot as FileSystemSnapshot<T | Uint8Array>)
+  }
+  Object.entries(permissions ?? {}).forEach(([path, permission]) =>
+    fs.setPermissions(path, permission),
+  )
+  return fs
+}
@@ -0,0 +1,269 @@
+import { batch, createSignal } from 'solid-js'
+import type { FileSystem, FileSystemSnapshot } from './create-file-system'
+import type { Serializer } from './storage'
+import { extend, PathUtils } from './utils'
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                      Types                                     */
+/*                                                                                */
+/**********************************************************************************/
+
+interface Operation {
+  undo(): void
+  redo(): void
+}
+
+type Transaction = Array<Operation>
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                 Create History                                 */
+/*                                                                                */
+/**********************************************************************************/
+
+/**
+ * Wraps a file system with an undo/redo history.
+ *
+ * Mutations made through the returned file system are recorded as inverse-able operations.
+ * Mutations made synchronously after one another (p.ex moving a multi-selection in the FileTree)
+ * are grouped into a single transaction, so they are undone in one step.
+ */
+export function createHistory<T>(fs: FileSystem<T>, options?: { limit?: number }) {
+  const [past, setPast] = createSignal<Array<Transaction>>([])
+  const [future, setFuture] = createSignal<Array<Transaction>>([])
+  let currentTransaction: Transaction | undefined
+  let explicitTransaction = false
+
+  function closeTransaction() {
+    if (!explicitTransaction) {
+      currentTransaction = undefined
+    }
+  }
+
+  function record(operation: Operation) {
+    if (!currentTransaction) {
+      const transaction: Transaction = []
+      currentTransaction = transaction
+      setPast(past => [...past, transaction].slice(-(options?.limit ?? Infinity)))
+      setFuture([])
+      queueMicrotask(() => {
+        if (currentTransaction === transaction) {
+          closeTransaction()
+        }
+      })
+    }
+    currentTransaction.push(operation)
+  }
+
+  /** Returns a function that restores the given path to its current state. */
+  function capture(path: string) {
+    const type = fs.exists(path) ? fs.lstat(path).type : undefined
+    const value = type === 'file' ? fs.readFile(path) : undefined
+    const snapshot = type === 'dir' ? fs.toJSON(path) : undefined
+    const target = type === 'symlink' ? fs.readlink(path) : undefined
+
+    return () => {
+      batch(() => {
+        if (fs.exists(path)) {
+          fs.rm(path, { recursive: true })
+        }
+        if (type === 'file') {
+          fs.writeFile(path, value!)
+        } else if (type === 'dir') {
+          fs.mkdir(path)
+          fs.load(snapshot!, { path })
+        } else if (type === 'symlink') {
+          fs.symlink(target!, path)
+        }
+      })
+    }
+  }
+
+  /**
+   * Returns the paths a load of the snapshot replaces as a whole: the top-most missing ancestor
+   * of the base, or the top-most dirEnts of the snapshot.
+   */
+  function getLoadedPaths(snapshot: FileSystemSnapshot<unknown>, base: string) {
+    let missing: string | undefined
+    for (let path = base; path && !fs.exists(path); path = PathUtils.getParent(path)) {
+      missing = path
+    }
+    if (missing) {
+      return [missing]
+    }
+    return [
+      ...new Set(
+        Object.keys(snapshot).map(relativePath =>
+          PathUtils.join(base, PathUtils.normalize(relativePath).split('/')[0]!),
+        ),
+      ),
+    ]
+  }
+
+  function load(snapshot: FileSystemSnapshot<T | Uint8Array>, options?: { path?: string }): void
+  function load(
+    snapshot: FileSystemSnapshot<string | Uint8Array>,
+    options: { path?: string; serializer: Serializer<T> },
+  ): void
+  function load(
+    snapshot: FileSystemSnapshot<T | string | Uint8Array>,
+    options?: { path?: string; serializer?: Serializer<T> },
+  ) {
+    const paths = getLoadedPaths(snapshot, PathUtils.normalize(options?.path ?? ''))
+    const restores = paths.map(capture)
+
+    if (options?.serializer) {
+      fs.load(snapshot as FileSystemSnapshot<string | Uint8Array>, {
+        ...options,
+        serializer: options.serializer,
+      })
+    } else {
+      fs.load(snapshot as FileSystemSnapshot<T | Uint8Array>, options)
+    }
+
+    const redos = paths.map(capture)
+    record({
+      undo: () => batch(() => restores.forEach(restore => restore())),
+      redo: () => batch(() => redos.forEach(redo => redo())),
+    })
+  }
+
+  return extend(fs, {
+    mkdir(path: string, options?: { recursive?: boolean }) {
+      path = PathUtils.normalize(path)
+
+      const parts = path.split('/')
+      const createdPaths = (
+        options?.recursive ? parts.map((_, index) => parts.slice(0, index + 1).join('/')) : [path]
+      ).filter(path => !fs.exists(path))
+
+      fs.mkdir(path, options)
+
+      record({
+        undo: () => [...createdPaths].reverse().forEach(path => fs.rm(path)),
+        redo: () => createdPaths.forEach(path => fs.mkdir(path)),
+      })
+    },
+    writeFile(path: string, source: T | Uint8Array) {
+      path = PathUtils.normalize(path)
+
+      const existed = fs.exists(path)
+      const previous = existed ? fs.readFile(path) : undefined
+
+      fs.writeFile(path, source)
+
+      record({
+        undo: () => (existed ? fs.writeFile(path, previous!) : fs.rm(path)),
+        redo: () => fs.writeFile(path, source),
+      })
+    },
+    symlink(target: string, path: string) {
+      path = PathUtils.normalize(path)
+
+      fs.symlink(target, path)
+
+      record({
+        undo: () => fs.rm(path),
+        redo: () => fs.symlink(target, path),
+      })
+    },
+    load,
+    rename(previous: string, next: string) {
+      previous = PathUtils.normalize(previous)
+      next = PathUtils.normalize(next)
+
+      fs.rename(previous, next)
+
+      record({
+        undo: () => fs.rename(next, previous),
+        redo: () => fs.rename(previous, next),
+      })
+    },
+    rm(path: string, options?: { force?: boolean; recursive?: boolean }) {
+      path = PathUtils.normalize(path)
+
+      const restore = capture(path)
+
+      fs.rm(path, options)
+
+      record({
+        undo: restore,
+        redo: () => fs.rm(path, { force: true, recursive: true }),
+      })
+    },
+    copyFile(src: string, dest: string) {
+      src = PathUtils.normalize(src)
+      dest = PathUtils.normalize(dest)
+
+      const restore = capture(dest)
+      const value = fs.readFile(src)
+
+      fs.copyFile(src, dest)
+
+      record({
+        undo: restore,
+        redo: () => fs.writeFile(dest, value),
+      })
+    },
+    cp(src: string, dest: string, options?: { recursive?: boolean; force?: boolean }) {
+      src = PathUtils.normalize(src)
+      dest = PathUtils.normalize(dest)
+
+      const restore = capture(dest)
+
+      fs.cp(src, dest, options)
+
+      const redo = capture(dest)
+      record({ undo: restore, redo })
+    },
+    /** Groups all mutations made inside the callback into a single transaction. */
+    transaction<TResult>(callback: () => TResult): TResult {
+      if (explicitTransaction) {
+        return callback()
+      }
+      currentTransaction = undefined
+      explicitTransaction = true
+      try {
+        return batch(callback)
+      } finally {
+        explicitTransaction = false
+        currentTransaction = undefined
+      }
+    },
+    undo() {
+      const transaction = past()[past().length - 1]
+      if (!transaction) return
+      currentTransaction = undefined
+      batch(() => {
+        ;[...transaction].reverse().forEach(operation => operation.undo())
+        setPast(past => past.slice(0, -1))
+        setFuture(future => [...future, transaction])
+      })
+    },
+    redo() {
+      const transaction = future()[future().length - 1]
+      if (!transaction) return
+      currentTransaction = undefined
+      batch(() => {
+        transaction.forEach(operation => operation.redo())
+        setFuture(future => future.slice(0, -1))
+        setPast(past => [...past, transaction])
+      })
+    },
+    /** Clears both the undo and redo stack. */
+    clearHistory() {
+      currentTransaction = undefined
+      batch(() => {
+        setPast([])
+        setFuture([])
+      })
+    },
+    get canUndo() {
+      return past().length > 0
+    },
+    get canRedo() {
+      return future().length > 0
+    },
+  })
+}
@@ -0,0 +1,193 @@
+import { ReactiveMap } from '@solid-primitives/map'
+import type { ComposableFileSystem, DirEntry } from './create-file-system'
+import {
+  AlreadyExistsError,
+  BusyError,
+  CrossDeviceError,
+  InvalidArgumentError,
+  IsADirectoryError,
+  NotADirectoryError,
+  NotFoundError,
+} from './errors'
+import { PathUtils } from './utils'
+
+/**********************************************************************************/
+/*                                                                                */
+/*                             Create Mount File System                           */
+/*                                                                                */
+/**********************************************************************************/
+
+/**
+ * Composes file systems by mounting them at a path of the `root` file system,
+ * p.ex a shared `node_modules` at `node_modules` inside a project.
+ *
+ * Operations are delegated to the file system of the deepest mount point containing the path.
+ * Mount points can not be removed or renamed, and dirEnts can not be renamed across file systems.
+ */
+export function createMountFileSystem<T = string>(root: ComposableFileSystem<T>) {
+  /** Mounted file systems keyed by their mount point. */
+  const mounts = new ReactiveMap<string, ComposableFileSystem<T>>()
+
+  /** Returns the file system responsible for the path and the path relative to its root. */
+  function resolve(path: string) {
+    path = PathUtils.normalize(path)
+
+    let mountPoint: string | undefined
+    mounts.forEach((_, _mountPoint) => {
+      if (
+        (path === _mountPoint || PathUtils.isAncestor(path, _mountPoint)) &&
+        (mountPoint === undefined || _mountPoint.length > mountPoint.length)
+      ) {
+        mountPoint = _mountPoint
+      }
+    })
+
+    if (mountPoint === undefined) {
+      return { fs: root, path, mountPoint: '' }
+    }
+    return { fs: mounts.get(mountPoint)!, path: PathUtils.relative(mountPoint, path), mountPoint }
+  }
+
+  function isMountPoint(path: string) {
+    return mounts.has(PathUtils.normalize(path))
+  }
+
+  /** Throws if the path is a mount point or contains one. */
+  function assertNotBusy(path: string, syscall: string, dest?: string) {
+    path = PathUtils.normalize(path)
+    mounts.forEach((_, mountPoint) => {
+      if (mountPoint === path || PathUtils.isAncestor(mountPoint, path)) {
+        throw new BusyError(syscall, path, dest)
+      }
+    })
+  }
+
+  function exists(path: string) {
+    if (isMountPoint(path)) {
+      return true
+    }
+    const resolved = resolve(path)
+    return resolved.fs.exists(resolved.path)
+  }
+
+  function getType(path: string) {
+    if (isMountPoint(path)) {
+      return 'dir' as const
+    }
+    const resolved = resolve(path)
+    return resolved.fs.getType(resolved.path)
+  }
+
+  function readdir(path: string, options: { withFileTypes: true }): Array<DirEntry>
+  function readdir(path: string): Array<string>
+  function readdir(path: string, options?: { withFileTypes?: boolean }) {
+    const resolved = resolve(path)
+    const entries = new Map<string, DirEntry>()
+
+    resolved.fs.readdir(resolved.path, { withFileTypes: true }).forEach(entry => {
+      const path = PathUtils.join(resolved.mountPoint, entry.path)
+      entries.set(path, { ...entry, path })
+    })
+
+    // Mount points shadow the dirEnts of the file system they are mounted in
+    mounts.forEach((_, mountPoint) => {
+      if (PathUtils.getParent(mountPoint) === PathUtils.normalize(path)) {
+        entries.set(mountPoint, { type: 'dir', path: mountPoint, binary: false })
+      }
+    })
+
+    const result = Array.from(entries.values())
+
+    if (options?.withFileTypes) {
+      return result
+    }
+
+    return result.map(({ path }) => path)
+  }
+
+  function readFile(path: string): T | Uint8Array
+  function readFile(path: string, options: { encoding: 'utf8' }): string
+  function readFile(path: string, options: { encoding: null }): Uint8Array
+  function readFile(path: string, options?: { encoding?: 'utf8' | null }): T | Uint8Array | string
+  function readFile(path: string, options?: { encoding?: 'utf8' | null }) {
+    if (isMountPoint(path)) {
+      throw new IsADirectoryError('readFile', path)
+    }
+    const resolved = resolve(path)
+    return resolved.fs.readFile(resolved.path, options)
+  }
+
+  return {
+    /** Mounts the file system at the given path, its parent has to be an existing directory. */
+    mount(path: string, fs: ComposableFileSystem<T>) {
+      path = PathUtils.normalize(path)
+
+      if (path === '') {
+        throw new InvalidArgumentError('mount', path)
+      }
+      if (mounts.has(path)) {
+        throw new BusyError('mount', path)
+      }
+
+      const parent = PathUtils.getParent(path)
+      if (!exists(parent)) {
+        throw new NotFoundError('mount', path)
+      }
+      if (getType(parent) !== 'dir') {
+        throw new NotADirectoryError('mount', path)
+      }
+
+      mounts.set(path, fs)
+    },
+    /** Unmounts the file system mounted at the given path. */
+    unmount(path: string) {
+      path = PathUtils.normalize(path)
+
+      if (!mounts.has(path)) {
+        throw new InvalidArgumentError('unmount', path)
+      }
+
+      mounts.delete(path)
+    },
+    exists,
+    getType,
+    readdir,
+    readFile,
+    writeFile(path: string, source: T | Uint8Array) {
+      if (isMountPoint(path)) {
+        throw new IsADirectoryError('writeFile', path)
+      }
+      const resolved = resolve(path)
+      resolved.fs.writeFile(resolved.path, source)
+    },
+    mkdir(path: string, options?: { recursive?: boolean }) {
+      if (isMountPoint(path)) {
+        if (options?.recursive) return
+        throw new AlreadyExistsError('mkdir', path)
+      }
+      const resolved = resolve(path)
+      resolved.fs.mkdir(resolved.path, options)
+    },
+    rename(previous: string, next: string) {
+      assertNotBusy(previous, 'rename', next)
+
+      if (isMountPoint(next)) {
+        throw new AlreadyExistsError('rename', previous, next)
+      }
+
+      const resolvedPrevious = resolve(previous)
+      const resolvedNext = resolve(next)
+
+      if (resolvedPrevious.mountPoint !== resolvedNext.mountPoint) {
+        throw new CrossDeviceError('rename', previous, next)
+      }
+
+      resolvedPrevious.fs.rename(resolvedPrevious.path, resolvedNext.path)
+    },
+    rm(path: string, options?: { force?: boolean; recursive?: boolean }) {
+      assertNotBusy(path, 'rm')
+      const resolved = resolve(path)
+      resolved.fs.rm(resolved.path, options)
+    },
+  }
+}
@@ -0,0 +1,276 @@
+import { ReactiveMap } from '@solid-primitives/map'
+import { batch } from 'solid-js'
+import type { ComposableFileSystem, DirEntry } from './create-file-system'
+import {
+  AlreadyExistsError,
+  InvalidArgumentError,
+  IsADirectoryError,
+  NotADirectoryError,
+  NotEmptyError,
+  NotFoundError,
+  NotImplementedError,
+} from './errors'
+import { PathUtils } from './utils'
+
+/**********************************************************************************/
+/*                                                                                */
+/*                            Create Overlay File System                          */
+/*                                                                                */
+/**********************************************************************************/
+
+/**
+ * Layers a writable `upper` file system over a `lower` one, p.ex user edits over a template.
+ *
+ * Reads prefer the upper layer and fall back to the lower layer, while all writes go to the upper
+ * layer: the lower layer is never modified. Removed paths of the lower layer are hidden with
+ * whiteouts. Renaming a path of the lower layer copies it up to the upper layer.
+ */
+export function createOverlayFileSystem<T = string>(
+  lower: ComposableFileSystem<T>,
+  upper: ComposableFileSystem<T>,
+) {
+  /** Paths of the lower layer that are removed, their descendants are hidden as well. */
+  const whiteouts = new ReactiveMap<string, true>()
+
+  function isWhitedOut(path: string) {
+    const parts = path.split('/')
+    return parts.some((_, index) => whiteouts.has(parts.slice(0, index + 1).join('/')))
+  }
+
+  function isInLower(path: string) {
+    return !isWhitedOut(path) && lower.exists(path)
+  }
+
+  /** Returns the layer the path is read from. */
+  function getLayer(path: string, syscall: string) {
+    if (upper.exists(path)) return upper
+    if (isInLower(path)) return lower
+    throw new NotFoundError(syscall, path)
+  }
+
+  /**
+   * Removes the whiteout of a path that is created again.
+   * The children of a removed directory stay hidden: the new directory starts out empty.
+   */
+  function clearWhiteout(path: string) {
+    if (!whiteouts.has(path)) return
+    batch(() => {
+      whiteouts.delete(path)
+      if (lower.exists(path) && lower.getType(path) === 'dir') {
+        lower.readdir(path).forEach(child => whiteouts.set(child, true))
+      }
+    })
+  }
+
+  /** Copies the directory and its ancestors up to the upper layer. */
+  function copyUpDir(path: string, syscall: string) {
+    if (path === '' || (upper.exists(path) && upper.getType(path) === 'dir')) return
+
+    if (getLayer(path, syscall).getType(path) !== 'dir') {
+      throw new NotADirectoryError(syscall, path)
+    }
+
+    copyUpDir(PathUtils.getParent(path), syscall)
+    upper.mkdir(path)
+  }
+
+  function exists(path: string) {
+    path = PathUtils.normalize(path)
+    return upper.exists(path) || isInLower(path)
+  }
+
+  function getType(path: string) {
+    path = PathUtils.normalize(path)
+    return getLayer(path, 'getType').getType(path)
+  }
+
+  function readdir(path: string, options: { withFileTypes: true }): Array<DirEntry>
+  function readdir(path: string): Array<string>
+  function readdir(path: string, options?: { withFileTypes?: boolean }) {
+    path = PathUtils.normalize(path)
+
+    if (getLayer(path, 'readdir').getType(path) !== 'dir') {
+      throw new NotADirectoryError('readdir', path)
+    }
+
+    const entries = new Map<string, DirEntry>()
+
+    // Entries of the upper layer shadow the ones of the lower layer
+    if (isInLower(path) && lower.getType(path) === 'dir') {
+      lower.readdir(path, { withFileTypes: true }).forEach(entry => {
+        if (!isWhitedOut(entry.path)) {
+          entries.set(entry.path, entry)
+        }
+      })
+    }
+    if (upper.exists(path)) {
+      upper.readdir(path, { withFileTypes: true }).forEach(entry => entries.set(entry.path, entry))
+    }
+
+    const result = Array.from(entries.values())
+
+    if (options?.withFileTypes) {
+      return result
+    }
+
+    return result.map(({ path }) => path)
+  }
+
+  function readFile(path: string): T | Uint8Array
+  function readFile(path: string, options: { encoding: 'utf8' }): string
+  function readFile(path: string, options: { encoding: null }): Uint8Array
+  function readFile(path: string, options?: { encoding?: 'utf8' | null }): T | Uint8Array | string
+  function readFile(path: string, options?: { encoding?: 'utf8' | null }) {
+    path = PathUtils.normalize(path)
+    return getLayer(path, 'readFile').readFile(path, options)
+  }
+
+  function writeFile(path: string, source: T | Uint8Array) {
+    path = PathUtils.normalize(path)
+
+    if (exists(path) && getType(path) === 'dir') {
+      throw new IsADirectoryError('writeFile', path)
+    }
+
+    batch(() => {
+      copyUpDir(PathUtils.getParent(path), 'writeFile')
+      upper.writeFile(path, source)
+      clearWhiteout(path)
+    })
+  }
+
+  function mkdir(path: string, options?: { recursive?: boolean }) {
+    path = PathUtils.normalize(path)
+
+    if (options?.recursive) {
+      const parts = path.split('/')
+      batch(() =>
+        parts.forEach((_, index) => {
+          const ancestor = parts.slice(0, index + 1).join('/')
+          if (!exists(ancestor)) {
+            mkdir(ancestor)
+          } else if (getType(ancestor) !== 'dir') {
+            throw new NotADirectoryError('mkdir', ancestor)
+          }
+        }),
+      )
+      return
+    }
+
+    if (exists(path)) {
+      throw new AlreadyExistsError('mkdir', path)
+    }
+
+    batch(() => {
+      copyUpDir(PathUtils.getParent(path), 'mkdir')
+      upper.mkdir(path)
+      clearWhiteout(path)
+    })
+  }
+
+  function rm(path: string, options?: { force?: boolean; recursive?: boolean }) {
+    path = PathUtils.normalize(path)
+
+    if (!exists(path)) {
+      if (options?.force) return
+      throw new NotFoundError('rm', path)
+    }
+
+    if (path === '') {
+      throw new InvalidArgumentError('rm', path)
+    }
+
+    if (
+      !options?.recursive &&
+      !options?.force &&
+      getType(path) === 'dir' &&
+      readdir(path).length > 0
+    ) {
+      throw new NotEmptyError('rm', path)
+    }
+
+    batch(() => {
+      if (upper.exists(path)) {
+        upper.rm(path, { recursive: true })
+      }
+      if (isInLower(path)) {
+        // The whiteout of the path hides the whiteouts of its descendants
+        const descendants = new Array<string>()
+        whiteouts.forEach((_, whiteout) => {
+          if (PathUtils.isAncestor(whiteout, path)) {
+            descendants.push(whiteout)
+          }
+        })
+        descendants.forEach(whiteout => whiteouts.delete(whiteout))
+        whiteouts.set(path, true)
+      }
+    })
+  }
+
+  /** Copies the path of the overlay to the upper layer, symlinks are copied as links. */
+  function copy(src: string, dest: string) {
+    const layer = getLayer(src, 'rename')
+    if (layer.lstat?.(src).type === 'symlink') {
+      if (!upper.symlink) {
+        throw new NotImplementedError('symlink', dest)
+      }
+      const target = layer.readlink!(src)
+      batch(() => {
+        copyUpDir(PathUtils.getParent(dest), 'rename')
+        upper.symlink!(target, dest)
+        clearWhiteout(dest)
+      })
+    } else if (getType(src) === 'dir') {
+      mkdir(dest)
+      readdir(src).forEach(path => copy(path, PathUtils.rebase(path, src, dest)))
+    } else {
+      writeFile(dest, readFile(src))
+    }
+  }
+
+  return {
+    exists,
+    getType,
+    readdir,
+    readFile,
+    writeFile,
+    mkdir,
+    rename(previous: string, next: string) {
+      previous = PathUtils.normalize(previous)
+      next = PathUtils.normalize(next)
+
+      if (!exists(previous)) {
+        throw new NotFoundError('rename', previous, next)
+      }
+
+      if (exists(next)) {
+        throw new AlreadyExistsError('rename', previous, next)
+      }
+
+      if (PathUtils.isAncestor(next, previous)) {
+        throw new InvalidArgumentError('rename', previous, next)
+      }
+
+      batch(() => {
+        copyUpDir(PathUtils.getParent(next), 'rename')
+
+        // Paths only in the upper layer can be renamed in place
+        if (!isInLower(previous)) {
+          upper.rename(previous, next)
+          clearWhiteout(next)
+          return
+        }
+
+        copy(previous, next)
+        rm(previous, { recursive: true })
+      })
+    },
+    rm,
+    /** Returns the paths of the lower layer that are removed in the overlay. */
+    getWhiteouts() {
+      const paths = new Array<string>()
+      whiteouts.forEach((_, path) => paths.push(path))
+      return paths
+    },
+  }
+}
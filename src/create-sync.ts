@@ -0,0 +1,320 @@
+import { batch, createSignal, getOwner, onCleanup, untrack } from 'solid-js'
+import { createFileSystem, type FileSystem, type FileSystemSnapshot } from './create-file-system'
+import { FileSystemError, type FileSystemErrorCode } from './errors'
+import { extend, isEqualDirEnt, PathUtils } from './utils'
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                      Types                                     */
+/*                                                                                */
+/**********************************************************************************/
+
+type Mutation<T> =
+  | { type: 'mkdir'; path: string }
+  | { type: 'writeFile'; path: string; value: T | Uint8Array }
+  | { type: 'symlink'; path: string; target: string }
+  | { type: 'rename'; path: string; dest: string }
+  | { type: 'rm'; path: string }
+
+/** Serializable mutation of a file system, exchanged between synced file systems. */
+export type Operation<T = string> = Mutation<T> & {
+  /** Unique id of the operation, p.ex `peer-a:3`. */
+  id: string
+  /** Id of the peer that made the operation. */
+  origin: string
+  /** Lamport timestamp of the operation, orders operations across peers. */
+  version: number
+}
+
+/** Sends operations to the other peers and receives theirs. */
+export interface SyncTransport<T = string> {
+  postMessage(operations: Array<Operation<T>>): void
+  subscribe(listener: (operations: Array<Operation<T>>) => void): () => void
+}
+
+/** Subset of `BroadcastChannel` used by `createBroadcastChannelTransport`. */
+export type BroadcastChannelLike = Pick<
+  BroadcastChannel,
+  'postMessage' | 'addEventListener' | 'removeEventListener'
+>
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                      Utils                                     */
+/*                                                                                */
+/**********************************************************************************/
+
+/** Orders operations by version, ties are broken by origin so every peer picks the same order. */
+function compareOperations(a: Operation<unknown>, b: Operation<unknown>) {
+  if (a.version !== b.version) {
+    return a.version - b.version
+  }
+  return a.origin < b.origin ? -1 : a.origin > b.origin ? 1 : 0
+}
+
+/** Codes of the errors of operations that do not apply on this peer, p.ex a readonly path. */
+const SKIPPED_ERROR_CODES: Array<FileSystemErrorCode> = ['EPERM', 'ENOENT', 'EEXIST', 'ENOTDIR']
+
+/**
+ * Applies the operation leniently, so it results in the same state on every peer.
+ * Operations that no longer apply, p.ex renaming a removed path, are skipped.
+ */
+function applyOperation<T>(fs: FileSystem<T>, operation: Operation<T>) {
+  try {
+    switch (operation.type) {
+      case 'mkdir':
+        if (fs.exists(operation.path) && fs.getType(operation.path) !== 'dir') {
+          fs.rm(operation.path, { recursive: true })
+        }
+        fs.mkdir(operation.path, { recursive: true })
+        break
+      case 'writeFile':
+        if (fs.exists(operation.path) && fs.getType(operation.path) === 'dir') {
+          fs.rm(operation.path, { recursive: true })
+        }
+        fs.mkdir(PathUtils.getParent(operation.path), { recursive: true })
+        fs.writeFile(operation.path, operation.value)
+        break
+      case 'symlink':
+        fs.rm(operation.path, { force: true, recursive: true })
+        fs.mkdir(PathUtils.getParent(operation.path), { recursive: true })
+        fs.symlink(operation.target, operation.path)
+        break
+      case 'rename':
+        if (!fs.exists(operation.path)) return
+        fs.rm(operation.dest, { force: true, recursive: true })
+        fs.mkdir(PathUtils.getParent(operation.dest), { recursive: true })
+        fs.rename(operation.path, operation.dest)
+        break
+      case 'rm':
+        fs.rm(operation.path, { force: true, recursive: true })
+        break
+    }
+  } catch (error) {
+    if (!(error instanceof FileSystemError && SKIPPED_ERROR_CODES.includes(error.code))) {
+      throw error
+    }
+  }
+}
+
+/** Updates the file system to match the snapshot, leaving unchanged dirEnts untouched. */
+function reconcile<T>(fs: FileSystem<T>, snapshot: FileSystemSnapshot<T | Uint8Array>) {
+  const current = fs.toJSON()
+
+  batch(() => {
+    Object.keys(current)
+      .filter(path => !(path in snapshot) || snapshot[path]!.type !== current[path]!.type)
+      .sort(PathUtils.compareDepth)
+      .forEach(path => fs.rm(path, { force: true, recursive: true }))
+
+    Object.keys(snapshot)
+      .filter(path => !(path in current) || !isEqualDirEnt(current[path]!, snapshot[path]!))
+      .sort(PathUtils.compareDepth)
+      .forEach(path => fs.load({ [path]: snapshot[path]! }))
+  })
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                         Create Broadcast Channel Transport                     */
+/*                                                                                */
+/**********************************************************************************/
+
+/**
+ * Transport syncing file systems across browser tabs of the same origin.
+ * Accepts the name of a channel, or a channel-like object p.ex to sync with a worker.
+ */
+export function createBroadcastChannelTransport<T = string>(
+  channel: string | BroadcastChannelLike,
+): SyncTransport<T> {
+  const _channel = typeof channel === 'string' ? new BroadcastChannel(channel) : channel
+  return {
+    postMessage(operations) {
+      _channel.postMessage(operations)
+    },
+    subscribe(listener) {
+      const handler = (event: MessageEvent) => listener(event.data)
+      _channel.addEventListener('message', handler)
+      return () => _channel.removeEventListener('message', handler)
+    },
+  }
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                   Create Sync                                  */
+/*                                                                                */
+/**********************************************************************************/
+
+/**
+ * Wraps a file system with an operation log, p.ex to sync a project across tabs or peers.
+ *
+ * Mutations made through the returned file system are recorded as serializable operations and
+ * posted to the `transport`. Remote operations are merged with `applyOperations`. All operations
+ * are ordered by version and origin, and remote operations that arrive out of order are merged by
+ * replaying the log from the contents the file system had when it was wrapped: peers starting
+ * from the same contents converge, regardless of the order in which they receive operations.
+ *
+ * The log grows with every operation and is replayed as a whole for each out of order merge.
+ * With `limit`, the oldest operations are folded into the replayed contents once the log exceeds
+ * it. Remote operations ordered before the folded ones are then merged after them: peers only
+ * converge if operations arrive within `limit` operations of each other.
+ *
+ * @example
+ * ```ts
+ * const fs = createSync(createFileSystem(), {
+ *   transport: createBroadcastChannelTransport('project'),
+ * })
+ * ```
+ */
+export function createSync<T>(
+  fs: FileSystem<T>,
+  options?: { id?: string; transport?: SyncTransport<T>; limit?: number },
+) {
+  const id = options?.id ?? Math.random().toString(36).slice(2)
+  let base = fs.toJSON()
+  const [operations, setOperations] = createSignal<Array<Operation<T>>>([])
+  const appliedIds = new Set<string>()
+  let clock = 0
+
+  /** Returns the contents of the snapshot after the operations are applied to it. */
+  function replay(snapshot: FileSystemSnapshot<T | Uint8Array>, operations: Array<Operation<T>>) {
+    const replayed = createFileSystem.from<T>(snapshot)
+    operations.forEach(operation => applyOperation(replayed, operation))
+    return replayed.toJSON()
+  }
+
+  /**
+   * Folds the oldest operations of the log into the base once it exceeds the limit.
+   * Half of the limit is kept, so the base is not replayed with every operation.
+   */
+  function compact(log: Array<Operation<T>>) {
+    const limit = options?.limit ?? Infinity
+    if (log.length <= limit) {
+      return log
+    }
+    const index = log.length - Math.floor(limit / 2)
+    base = replay(base, log.slice(0, index))
+    return log.slice(index)
+  }
+
+  /** Records a local operation and posts it to the other peers. */
+  function emit(mutation: Mutation<T>) {
+    clock++
+    const operation: Operation<T> = {
+      ...mutation,
+      id: `${id}:${clock}`,
+      origin: id,
+      version: clock,
+    }
+    appliedIds.add(operation.id)
+    setOperations(compact([...untrack(operations), operation]))
+    options?.transport?.postMessage([operation])
+  }
+
+  /** Emits the operations that recreate the given path and its descendants. */
+  function emitTree(path: string) {
+    const type = fs.lstat(path).type
+    if (type === 'dir') {
+      emit({ type: 'mkdir', path })
+      fs.readdir(path).forEach(emitTree)
+    } else if (type === 'file') {
+      emit({ type: 'writeFile', path, value: fs.readFile(path) })
+    } else {
+      emit({ type: 'symlink', path, target: fs.readlink(path) })
+    }
+  }
+
+  /**
+   * Merges remote operations into the file system.
+   * Operations that were applied before are ignored, so the log of a peer can be replayed as is.
+   */
+  function applyOperations(remoteOperations: Array<Operation<T>>) {
+    const incoming = remoteOperations
+      .filter(operation => !appliedIds.has(operation.id))
+      .sort(compareOperations)
+
+    if (incoming.length === 0) return
+
+    const log = operations()
+    const last = log[log.length - 1]
+
+    incoming.forEach(operation => {
+      appliedIds.add(operation.id)
+      clock = Math.max(clock, operation.version)
+    })
+
+    // Operations ordered after the log are applied in place, others require replaying the log
+    if (!last || compareOperations(incoming[0]!, last) > 0) {
+      batch(() => {
+        incoming.forEach(operation => applyOperation(fs, operation))
+        setOperations(compact([...log, ...incoming]))
+      })
+      return
+    }
+
+    const nextLog = [...log, ...incoming].sort(compareOperations)
+
+    batch(() => {
+      reconcile(fs, replay(base, nextLog))
+      setOperations(compact(nextLog))
+    })
+  }
+
+  if (options?.transport) {
+    const unsubscribe = options.transport.subscribe(applyOperations)
+    if (getOwner()) {
+      onCleanup(unsubscribe)
+    }
+  }
+
+  return extend(fs, {
+    mkdir(path: string, options?: { recursive?: boolean }) {
+      path = PathUtils.normalize(path)
+      fs.mkdir(path, options)
+      emit({ type: 'mkdir', path })
+    },
+    writeFile(path: string, source: T | Uint8Array) {
+      path = PathUtils.normalize(path)
+      fs.writeFile(path, source)
+      emit({ type: 'writeFile', path, value: source })
+    },
+    symlink(target: string, path: string) {
+      path = PathUtils.normalize(path)
+      fs.symlink(target, path)
+      emit({ type: 'symlink', path, target })
+    },
+    rename(previous: string, next: string) {
+      previous = PathUtils.normalize(previous)
+      next = PathUtils.normalize(next)
+      fs.rename(previous, next)
+      emit({ type: 'rename', path: previous, dest: next })
+    },
+    rm(path: string, options?: { force?: boolean; recursive?: boolean }) {
+      path = PathUtils.normalize(path)
+      const existed = fs.exists(path)
+      fs.rm(path, options)
+      if (existed) {
+        emit({ type: 'rm', path })
+      }
+    },
+    copyFile(src: string, dest: string) {
+      dest = PathUtils.normalize(dest)
+      fs.copyFile(src, dest)
+      emitTree(dest)
+    },
+    cp(src: string, dest: string, options?: { recursive?: boolean; force?: boolean }) {
+      dest = PathUtils.normalize(dest)
+      fs.cp(src, dest, options)
+      emitTree(dest)
+    },
+    /** Id of this peer, the origin of its operations. */
+    id,
+    /**
+     * Log of the local and remote operations applied to the file system, in merge order.
+     * Operations folded with `limit` are left out.
+     */
+    operations,
+    applyOperations,
+  })
+}
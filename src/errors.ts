@@ -0,0 +1,116 @@
+export type FileSystemErrorCode =
+  | 'ENOENT'
+  | 'EEXIST'
+  | 'ENOTDIR'
+  | 'EISDIR'
+  | 'ENOTEMPTY'
+  | 'EINVAL'
+  | 'ELOOP'
+  | 'EPERM'
+  | 'EBUSY'
+  | 'EXDEV'
+  | 'ENOSYS'
+
+const descriptions: Record<FileSystemErrorCode, string> = {
+  ENOENT: 'no such file or directory',
+  EEXIST: 'file already exists',
+  ENOTDIR: 'not a directory',
+  EISDIR: 'illegal operation on a directory',
+  ENOTEMPTY: 'directory not empty',
+  EINVAL: 'invalid argument',
+  ELOOP: 'too many symbolic links encountered',
+  EPERM: 'operation not permitted',
+  EBUSY: 'resource busy or locked',
+  EXDEV: 'cross-device link not permitted',
+  ENOSYS: 'function not implemented',
+}
+
+/**
+ * Error thrown by file system operations, modelled after node's system errors.
+ * p.ex `ENOENT: no such file or directory, rename 'a' -> 'b'`
+ */
+export class FileSystemError extends Error {
+  constructor(
+    /** Node-style error code. */
+    readonly code: FileSystemErrorCode,
+    /** Name of the operation that failed, p.ex `rename`. */
+    readonly syscall: string,
+    /** The offending path. */
+    readonly path: string,
+    /** The offending destination path of operations with two paths, p.ex `rename` and `cp`. */
+    readonly dest?: string,
+  ) {
+    super(
+      `${code}: ${descriptions[code]}, ${syscall} '${path}'${
+        dest !== undefined ? ` -> '${dest}'` : ''
+      }`,
+    )
+    this.name = new.target.name
+  }
+}
+
+export class NotFoundError extends FileSystemError {
+  constructor(syscall: string, path: string, dest?: string) {
+    super('ENOENT', syscall, path, dest)
+  }
+}
+
+export class AlreadyExistsError extends FileSystemError {
+  constructor(syscall: string, path: string, dest?: string) {
+    super('EEXIST', syscall, path, dest)
+  }
+}
+
+export class NotADirectoryError extends FileSystemError {
+  constructor(syscall: string, path: string, dest?: string) {
+    super('ENOTDIR', syscall, path, dest)
+  }
+}
+
+export class IsADirectoryError extends FileSystemError {
+  constructor(syscall: string, path: string, dest?: string) {
+    super('EISDIR', syscall, path, dest)
+  }
+}
+
+export class NotEmptyError extends FileSystemError {
+  constructor(syscall: string, path: string, dest?: string) {
+    super('ENOTEMPTY', syscall, path, dest)
+  }
+}
+
+export class InvalidArgumentError extends FileSystemError {
+  constructor(syscall: string, path: string, dest?: string) {
+    super('EINVAL', syscall, path, dest)
+  }
+}
+
+export class SymlinkLoopError extends FileSystemError {
+  constructor(syscall: string, path: string, dest?: string) {
+    super('ELOOP', syscall, path, dest)
+  }
+}
+
+export class PermissionError extends FileSystemError {
+  constructor(syscall: string, path: string, dest?: string) {
+    super('EPERM', syscall, path, dest)
+  }
+}
+
+export class BusyError extends FileSystemError {
+  constructor(syscall: string, path: string, dest?: string) {
+    super('EBUSY', syscall, path, dest)
+  }
+}
+
+export class CrossDeviceError extends FileSystemError {
+  constructor(syscall: string, path: string, dest?: string) {
+    super('EXDEV', syscall, path, dest)
+  }
+}
+
+export class NotImplementedError extends FileSystemError {
+  constructor(syscall: string, path: string, dest?: string) {
+    super('ENOSYS', syscall, path, dest)
+  }
+}
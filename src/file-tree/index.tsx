@@ -14,6 +14,7 @@ import {
   type JSX,
   mapArray,
   mergeProps,
+  on,
   onCleanup,
   onMount,
   Show,
@@ -22,8 +23,23 @@ import {
   useContext,
 } from 'solid-js'
 import { createStore } from 'solid-js/store'
-import { CTRL_KEY, Overwrite, PathUtils, type WrapEvent } from 'src/utils'
-import { type FileSystem } from '../create-file-system'
+import {
+  CTRL_KEY,
+  isIgnoredPath,
+  type IgnoreRule,
+  lastItem,
+  Overwrite,
+  parseIgnorePatterns,
+  PathUtils,
+  type WrapEvent,
+} from 'src/utils'
+import type { DirEntStatus } from '../create-dirty-tracker'
+import {
+  AlreadyExistsError,
+  InvalidArgumentError,
+  NotImplementedError,
+  PermissionError,
+} from '../errors'
 
 interface DirEntBase {
   id: string
@@ -38,6 +54,22 @@ interface DirEntBase {
   focus(): void
   blur(): void
   focused: boolean
+  /** Whether the dirEnt is the tab stop of the tree: the focused dirEnt, or else the first one. */
+  tabbable: boolean
+  /** Whether an async rename of the dirEnt is still pending. */
+  pending: boolean
+  /** No dirEnts can be created inside the dirEnt: it is not a drop target. */
+  readonly: boolean
+  /** The dirEnt can not be renamed, moved or removed: it is not editable nor draggable. */
+  locked: boolean
+  /** Ranges of the name matching the `query`-prop, `undefined` when the dirEnt does not match. */
+  matches: Array<MatchRange> | undefined
+  /** Whether the dirEnt is the placeholder of a dirEnt being created, its name is edited inline. */
+  placeholder: boolean
+  /** Whether the dirEnt is cut to the clipboard, p.ex to render it dimmed until it is pasted. */
+  cut: boolean
+  /** Status of the dirEnt compared to a baseline, p.ex when `fs` is a `createDirtyTracker`. */
+  status: DirEntStatus | undefined
 }
 
 interface File extends DirEntBase {
@@ -49,9 +81,17 @@ interface Dir extends DirEntBase {
   expand(): void
   collapse(): void
   expanded: boolean
+  /** Whether the children of the dir are being loaded by an async file system. */
+  loading: boolean
+  /** Error thrown while loading the children of the dir. */
+  error: unknown
+}
+
+interface Symlink extends DirEntBase {
+  type: 'symlink'
 }
 
-type DirEnt = File | Dir
+type DirEnt = File | Dir | Symlink
 
 /**********************************************************************************/
 /*                                                                                */
@@ -59,17 +99,49 @@ type DirEnt = File | Dir
 /*                                                                                */
 /**********************************************************************************/
 
-interface FileTreeContext<T> {
-  fs: Pick<FileSystem<T>, 'readdir' | 'rename' | 'exists'>
+type MaybePromise<T> = T | Promise<T>
+
+type DirEntListing = Array<{ type: DirEnt['type']; path: string }>
+
+/**
+ * Subset of the file system used by the FileTree.
+ * Methods can return promises to point the tree at a remote or lazily loaded source:
+ * directories are then only loaded once they are expanded.
+ * Without `exists`, the existence of a path is derived from the loaded directories.
+ * Without `readFile`, the `ignoreFiles`-prop has no effect.
+ * Without `writeFile` and `mkdir`, no dirEnts can be created from the tree, files are created empty.
+ */
+interface FileTreeFileSystem<T = any> {
+  readdir(path: string, options: { withFileTypes: true }): MaybePromise<DirEntListing>
+  readFile?(path: string, options: { encoding: 'utf8' }): MaybePromise<string>
+  rename(previous: string, next: string): MaybePromise<void>
+  exists?(path: string): boolean
+  getPermissions?(path: string): { readonly?: boolean; locked?: boolean }
+  getStatus?(path: string): DirEntStatus | undefined
+  cp?(src: string, dest: string, options?: { recursive?: boolean }): MaybePromise<void>
+  writeFile?(path: string, source: T | string): MaybePromise<void>
+  mkdir?(path: string, options?: { recursive?: boolean }): MaybePromise<void>
+}
+
+interface FileTreeContext<T = any> {
+  fs: FileTreeFileSystem<T>
   base: string
   getDirEntsOfDirId(path: string): Array<DirEnt>
+  /** Checks `fs.exists`, or the loaded directories if the file system does not implement it. */
+  exists(path: string): boolean
+  /** Checks `fs.getPermissions`, all paths are writable and unlocked if it is not implemented. */
+  getPermissions(path: string): { readonly: boolean; locked: boolean }
   // Expand/Collapse
   expandDirById(id: string): void
   collapseDirById(id: string): void
   isDirExpandedById(id: string): boolean
+  // Loading
+  isDirLoadingById(id: string): boolean
+  getDirErrorById(id: string): unknown
   // Selection
   resetSelectedDirEntIds(): void
   moveSelectedDirEntsToPath(path: string): void
+  copySelectedDirEntsToPath(path: string): void
   selectDirEntById(id: string): void
   shiftSelectDirEntById(id: string): void
   deselectDirEntById(id: string): void
@@ -77,11 +149,43 @@ interface FileTreeContext<T> {
   focusDirEnt(path: string): void
   blurDirEnt(path: string): void
   isDirEntFocused(path: string): boolean
+  // Clipboard
+  /** Cuts the selected dirEnts to the clipboard, they are moved once pasted. */
+  cut(): void
+  /** Copies the selected dirEnts to the clipboard. */
+  copy(): void
+  /**
+   * Moves or copies the dirEnts of the clipboard into the dir.
+   * Copies are renamed when their name is taken, p.ex `file copy.ts` and `file copy 2.ts`.
+   */
+  paste(targetPath: string): void
+  /** Paths of the dirEnts cut to the clipboard. */
+  cutPaths: Array<string>
+  // Creation
+  /** Expands the dir and inserts a placeholder row to name a new file in it. */
+  createFileIn(dirPath: string): void
+  /** Expands the dir and inserts a placeholder row to name a new dir in it. */
+  createDirIn(dirPath: string): void
+  /**
+   * Creates the dirEnt of the placeholder with the given name, relative to its parent dir:
+   * intermediate dirs of nested names like `a/b/c.ts` are created as well.
+   * An empty name discards the placeholder.
+   */
+  commitPlaceholder(name: string): void
+  discardPlaceholder(): void
   // Id Generator
   pathToId(path: string): string
+  // Scrolling
+  /** Expands the ancestors of the path and scrolls its dirEnt into view. */
+  scrollToPath(path: string): void
+  /** Registers the element of a dirEnt, used to scroll it into view and to keep it mounted. */
+  registerDirEntElement(id: string, element: HTMLElement): void
+  // Errors
+  /** Forwards the error to the `onError`-prop, rethrows if no handler is given. */
+  handleError(error: unknown): void
 }
 
-const FileTreeContext = createContext<FileTreeContext<any>>()
+const FileTreeContext = createContext<FileTreeContext>()
 export function useFileTree() {
   const context = useContext(FileTreeContext)
   if (!context) throw new Error(`FileTreeContext is undefined`)
@@ -243,34 +347,356 @@ function createIdGenerator() {
   }
 }
 
+/**********************************************************************************/
+/*                                                                                */
+/*                                      Utils                                     */
+/*                                                                                */
+/**********************************************************************************/
+
+/**
+ * Appends ` copy`, or ` copy 2`, ` copy 3`, ..., to the name until the path is not taken.
+ * p.ex `file.ts` becomes `file copy.ts`, the extension of dirs is not preserved.
+ */
+function getCopyPath(path: string, type: DirEnt['type'], isTaken: (path: string) => boolean) {
+  const parent = PathUtils.getParent(path)
+  const extension = type === 'dir' ? '' : PathUtils.extname(path)
+  const stem = PathUtils.basename(path, extension)
+
+  for (let index = 1; ; index++) {
+    const name = `${stem} copy${index === 1 ? '' : ` ${index}`}${extension}`
+    const copyPath = PathUtils.join(parent, name)
+    if (!isTaken(copyPath)) {
+      return copyPath
+    }
+  }
+}
+
+/** Calls the callback once the value is resolved, synchronously if it is not a promise. */
+function chain<T, U>(value: MaybePromise<T>, callback: (value: T) => MaybePromise<U>) {
+  return value instanceof Promise ? value.then(callback) : callback(value)
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                  Drag And Drop                                 */
+/*                                                                                */
+/**********************************************************************************/
+
+/** Alt/Ctrl-dragging copies the selection instead of moving it. */
+function isCopyEvent(event: DragEvent) {
+  return event.altKey || event[CTRL_KEY]
+}
+
+function setDropEffect(event: DragEvent) {
+  if (event.dataTransfer) {
+    event.dataTransfer.dropEffect = isCopyEvent(event) ? 'copy' : 'move'
+  }
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                               Keyboard Navigation                              */
+/*                                                                                */
+/**********************************************************************************/
+
+export type FileTreeCommand =
+  /** Focuses and selects the next dirEnt. */
+  | 'next'
+  /** Focuses and selects the previous dirEnt. */
+  | 'previous'
+  /** Expands a collapsed dir, or moves to the first child of an expanded dir. */
+  | 'expand'
+  /** Collapses an expanded dir, or moves to the parent dir. */
+  | 'collapse'
+  /** Focuses and selects the first dirEnt. */
+  | 'first'
+  /** Focuses and selects the last dirEnt. */
+  | 'last'
+  /** Expands all dirs on the level of the focused dirEnt. */
+  | 'expandSiblings'
+  /** Extends the selection to the next dirEnt. */
+  | 'selectNext'
+  /** Extends the selection to the previous dirEnt. */
+  | 'selectPrevious'
+  /** Selects all visible dirEnts. */
+  | 'selectAll'
+  /** Cuts the selected dirEnts to the clipboard. */
+  | 'cut'
+  /** Copies the selected dirEnts to the clipboard. */
+  | 'copy'
+  /** Pastes the clipboard into the focused dir, or into the parent dir of the focused file. */
+  | 'paste'
+
+/**
+ * Key combinations mapped to commands, p.ex `{ 'Shift+ArrowDown': 'selectNext' }`.
+ * Combinations are written as modifiers followed by the `key` of the event, joined with `+`:
+ * `Mod` is the Cmd-key on Mac and the Ctrl-key elsewhere. `Shift` is omitted for symbols.
+ */
+export type FileTreeKeymap = Record<string, FileTreeCommand | null>
+
+export const defaultFileTreeKeymap: FileTreeKeymap = {
+  ArrowDown: 'next',
+  ArrowUp: 'previous',
+  ArrowRight: 'expand',
+  ArrowLeft: 'collapse',
+  Home: 'first',
+  End: 'last',
+  '*': 'expandSiblings',
+  'Shift+ArrowDown': 'selectNext',
+  'Shift+ArrowUp': 'selectPrevious',
+  'Mod+a': 'selectAll',
+  'Mod+x': 'cut',
+  'Mod+c': 'copy',
+  'Mod+v': 'paste',
+}
+
+/** Delay in milliseconds after which the type-ahead query is reset. */
+const TYPE_AHEAD_TIMEOUT = 500
+
+/** Serializes the key combination of the event, p.ex `Mod+Shift+ArrowDown`. */
+function getKeyCombination(event: KeyboardEvent) {
+  const key = event.key.length === 1 ? event.key.toLowerCase() : event.key
+  const isSymbol = key.length === 1 && key.toUpperCase() === key
+  return [
+    event[CTRL_KEY] && 'Mod',
+    event.altKey && 'Alt',
+    event.shiftKey && !isSymbol && 'Shift',
+    key,
+  ]
+    .filter(Boolean)
+    .join('+')
+}
+
+function isEditableElement(element: EventTarget | null) {
+  return (
+    element instanceof HTMLElement &&
+    (element.isContentEditable || element.tagName === 'INPUT' || element.tagName === 'TEXTAREA')
+  )
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                      Query                                     */
+/*                                                                                */
+/**********************************************************************************/
+
+/** Range of characters `[start, end)` of the name of a dirEnt. */
+export type MatchRange = [start: number, end: number]
+
+/** A string matched against the names of the dirEnts, or a predicate. */
+export type FileTreeQuery = string | ((dirEnt: { type: DirEnt['type']; path: string }) => boolean)
+
+/** Matches the first occurrence of the query in the name, case-insensitively. */
+function matchSubstring(name: string, query: string): Array<MatchRange> | undefined {
+  const index = name.toLowerCase().indexOf(query.toLowerCase())
+  return index === -1 ? undefined : [[index, index + query.length]]
+}
+
+/** Matches the characters of the query in order, p.ex `btn` matches `button.tsx`. */
+function matchFuzzy(name: string, query: string): Array<MatchRange> | undefined {
+  const _name = name.toLowerCase()
+  const ranges = new Array<MatchRange>()
+  let index = 0
+  for (const character of query.toLowerCase()) {
+    index = _name.indexOf(character, index)
+    if (index === -1) {
+      return undefined
+    }
+    // Adjacent characters are merged into a single range
+    const last = lastItem(ranges)
+    if (last && last[1] === index) {
+      last[1]++
+    } else {
+      ranges.push([index, index + 1])
+    }
+    index++
+  }
+  return ranges
+}
+
+/** Splits the name into the segments inside and outside of the ranges. */
+function splitByRanges(name: string, ranges: Array<MatchRange>) {
+  const segments = new Array<{ text: string; highlighted: boolean }>()
+  let index = 0
+  ranges.forEach(([start, end]) => {
+    if (start > index) {
+      segments.push({ text: name.slice(index, start), highlighted: false })
+    }
+    segments.push({ text: name.slice(start, end), highlighted: true })
+    index = end
+  })
+  if (index < name.length) {
+    segments.push({ text: name.slice(index), highlighted: false })
+  }
+  return segments
+}
+
 /**********************************************************************************/
 /*                                                                                */
 /*                                    FileTree                                    */
 /*                                                                                */
 /**********************************************************************************/
 
-export type FileTreeProps<T> = Overwrite<
+export type FileTreeProps<T = any> = Overwrite<
   ComponentProps<'div'>,
   {
     base?: string
     children: (dirEnt: Accessor<DirEnt>, fileTree: FileTreeContext<T>) => JSX.Element
-    fs: Pick<FileSystem<T>, 'readdir' | 'rename' | 'exists'>
+    /** Returns `false` to hide the dirEnt and its descendants from the tree. */
+    filter?(dirEnt: { type: DirEnt['type']; path: string }): boolean
+    fs: FileTreeFileSystem<T>
+    /** Gitignore-like patterns of dirEnts to hide, relative to `base`. p.ex `['node_modules']` */
+    ignore?: Array<string>
+    /**
+     * Names of ignore files read from the file system, p.ex `['.gitignore']`.
+     * Their patterns apply to the directory they are in and its descendants.
+     */
+    ignoreFiles?: Array<string>
+    /**
+     * Overrides of the `defaultFileTreeKeymap`, commands mapped to `null` are disabled.
+     * Printable characters that are not mapped move to the next dirEnt starting with the typed name.
+     */
+    keymap?: FileTreeKeymap
     onDragOver?(event: WrapEvent<DragEvent, HTMLDivElement>): void
     onDrop?(event: WrapEvent<DragEvent, HTMLDivElement>): void
+    /**
+     * Called when a user-interaction fails, p.ex a drop or rename onto an existing path.
+     * Without it, failures are rethrown, except those of async file systems which are dropped.
+     */
+    onError?(error: unknown): void
+    onKeyDown?(event: WrapEvent<KeyboardEvent, HTMLDivElement>): void
     onRename?(oldPath: string, newPath: string): void
     onSelectedPaths?(paths: string[]): void
+    /**
+     * Narrows the tree to the dirEnts matching the query and their ancestors, p.ex to find a file.
+     * While a query is active all dirs are loaded, and the dirs containing matches are expanded:
+     * the expanded dirs are left untouched and restored once the query is cleared.
+     */
+    query?: FileTreeQuery
+    /**
+     * How a string `query` is matched against the names of the dirEnts, defaults to `substring`.
+     * `fuzzy` matches the characters of the query in order, not necessarily adjacent.
+     */
+    queryMode?: 'substring' | 'fuzzy'
+    ref?(element: HTMLDivElement): void
     selectedPaths?: Array<string>
+    /** Whether dirEnts starting with a dot are shown, defaults to `true`. */
+    showHidden?: boolean
     sort?(dirEnt1: DirEnt, dirEnt2: DirEnt): number
+    /**
+     * Only mounts the rows in the viewport, plus `overscan` rows (defaults to 10) on either side.
+     * The FileTree becomes the scroll container: give it a fixed height and `overflow: auto`.
+     * The focused row and rows with a pending rename stay mounted while out of view.
+     */
+    virtualize?: { rowHeight: number; overscan?: number }
   }
 >
 
 export function FileTree<T>(props: FileTreeProps<T>) {
-  const [config, rest] = splitProps(mergeProps({ base: '' }, props), ['fs', 'base'])
+  const [config, rest] = splitProps(mergeProps({ base: '', showHidden: true }, props), [
+    'fs',
+    'base',
+    'filter',
+    'ignore',
+    'ignoreFiles',
+    'keymap',
+    'onError',
+    'onKeyDown',
+    'query',
+    'queryMode',
+    'ref',
+    'showHidden',
+    'virtualize',
+  ])
 
   const { obtainId, freezeId, beforeRename, idToPath, pathToId } = createIdGenerator()
 
   const baseId = createMemo(() => obtainId(config.base))
 
+  // Loaded DirEnts by the path of their parent dir
+  const listings = new ReactiveMap<string, DirEntListing>()
+
+  function exists(path: string) {
+    if (props.fs.exists) {
+      return props.fs.exists(path)
+    }
+    return (
+      path === config.base ||
+      !!listings.get(PathUtils.getParent(path))?.some(dirEnt => dirEnt.path === path)
+    )
+  }
+
+  function getPermissions(path: string) {
+    const permissions = props.fs.getPermissions?.(path)
+    return { readonly: !!permissions?.readonly, locked: !!permissions?.locked }
+  }
+
+  // Rules of the ignore files, by the path of the dir they are in
+  const ignoreFileRules = new ReactiveMap<string, Array<IgnoreRule>>()
+  const ignoreRules = createMemo(() => parseIgnorePatterns(config.ignore ?? [], config.base))
+
+  /** Whether the dirEnt passes the `showHidden`, `ignore`, `ignoreFiles` and `filter` props. */
+  function isDirEntVisible(dirEnt: { type: DirEnt['type']; path: string }) {
+    if (!config.showHidden && PathUtils.getName(dirEnt.path)!.startsWith('.')) {
+      return false
+    }
+
+    // Rules of nested ignore files come last, so they take precedence
+    const parts = dirEnt.path.split('/')
+    const rules = [
+      ...ignoreRules(),
+      ...parts.flatMap((_, index) => ignoreFileRules.get(parts.slice(0, index).join('/')) ?? []),
+    ]
+    if (isIgnoredPath(rules, dirEnt.path, dirEnt.type)) {
+      return false
+    }
+
+    return config.filter?.(dirEnt) ?? true
+  }
+
+  function getListedType(path: string) {
+    return listings.get(PathUtils.getParent(path))?.find(dirEnt => dirEnt.path === path)?.type
+  }
+
+  /**
+   * Moves the dirEnt and the listings of its descendants in the loaded listings.
+   * The type is passed explicitly when the dirEnt is not listed, p.ex when rolling back a move
+   * into a dir that is not loaded.
+   */
+  function rebaseListings(oldPath: string, newPath: string, type = getListedType(oldPath)) {
+    const oldParent = PathUtils.getParent(oldPath)
+    const newParent = PathUtils.getParent(newPath)
+
+    const descendants = new Array<[string, DirEntListing]>()
+    listings.forEach((listing, path) => {
+      if (path === oldPath || PathUtils.isAncestor(path, oldPath)) {
+        descendants.push([path, listing])
+      }
+    })
+
+    batch(() => {
+      if (listings.has(oldParent)) {
+        listings.set(
+          oldParent,
+          listings.get(oldParent)!.filter(dirEnt => dirEnt.path !== oldPath),
+        )
+      }
+      if (type && listings.has(newParent)) {
+        listings.set(newParent, [...listings.get(newParent)!, { type, path: newPath }])
+      }
+      descendants.forEach(([path]) => listings.delete(path))
+      descendants.forEach(([path, listing]) =>
+        listings.set(
+          PathUtils.rebase(path, oldPath, newPath),
+          listing.map(dirEnt => ({
+            ...dirEnt,
+            path: PathUtils.rebase(dirEnt.path, oldPath, newPath),
+          })),
+        ),
+      )
+    })
+  }
+
   // Focused DirEnt
   const [focusedDirEntId, setFocusedDirEntId] = createSignal<string | undefined>()
 
@@ -288,7 +714,7 @@ export function FileTree<T>(props: FileTreeProps<T>) {
   // Cleanup of removed dirEnt from focusedDirEntId
   createEffect(() => {
     const _focusedDirEntId = focusedDirEntId()
-    if (_focusedDirEntId && !props.fs.exists(idToPath(_focusedDirEntId))) {
+    if (_focusedDirEntId && !exists(idToPath(_focusedDirEntId))) {
       setFocusedDirEntId()
     }
   })
@@ -352,7 +778,7 @@ export function FileTree<T>(props: FileTreeProps<T>) {
   createEffect(
     mapArray(selectedDirEntIds, id => {
       createEffect(() => {
-        if (!props.fs.exists(idToPath(id))) {
+        if (!exists(idToPath(id))) {
           deselectDirEntById(id)
         }
       })
@@ -364,14 +790,47 @@ export function FileTree<T>(props: FileTreeProps<T>) {
     equals: false,
   })
 
-  const isDirExpandedById = createSelector(expandedDirIds, (id: string, expandedDirs) =>
+  const isDirInExpandedDirIds = createSelector(expandedDirIds, (id: string, expandedDirs) =>
     expandedDirs.includes(id),
   )
 
+  // Dirs expanded or collapsed by the user while a query is active, reset when the query changes
+  const [queryToggledDirIds, setQueryToggledDirIds] = createSignal<Array<string>>([])
+  createComputed(
+    on(
+      () => config.query,
+      () => setQueryToggledDirIds([]),
+    ),
+  )
+
+  function isQueryActive() {
+    return !!config.query
+  }
+
+  function toggleQueryDirById(id: string) {
+    setQueryToggledDirIds(ids => (ids.includes(id) ? ids.filter(_id => _id !== id) : [...ids, id]))
+  }
+
+  /** While a query is active, dirs containing matches are expanded unless the user collapses them. */
+  function isDirExpandedById(id: string) {
+    if (!isQueryActive()) {
+      return isDirInExpandedDirIds(id)
+    }
+    return queryResults().ancestorIds.has(id) !== queryToggledDirIds().includes(id)
+  }
+
   function collapseDirById(id: string) {
+    if (isQueryActive()) {
+      if (isDirExpandedById(id)) toggleQueryDirById(id)
+      return
+    }
     setExpandedDirIds(dirs => dirs.filter(dir => dir !== id))
   }
   function expandDirById(id: string) {
+    if (isQueryActive()) {
+      if (id !== baseId() && !isDirExpandedById(id)) toggleQueryDirById(id)
+      return
+    }
     if (id !== baseId() && !expandedDirIds().includes(id)) {
       setExpandedDirIds(ids => [...ids, id])
     }
@@ -381,115 +840,372 @@ export function FileTree<T>(props: FileTreeProps<T>) {
   createEffect(
     mapArray(expandedDirIds, id => {
       createEffect(() => {
-        if (!props.fs.exists(idToPath(id))) {
-          collapseDirById(id)
+        if (!exists(idToPath(id))) {
+          setExpandedDirIds(dirs => dirs.filter(dir => dir !== id))
         }
       })
     }),
   )
 
+  // Loading state of dirs of async file systems
+  const [dirStates, setDirStates] = createStore<
+    Record<string, { loading: boolean; error?: unknown } | undefined>
+  >({})
+
+  function isDirLoadingById(id: string) {
+    return !!dirStates[id]?.loading
+  }
+  function getDirErrorById(id: string) {
+    return dirStates[id]?.error
+  }
+
+  // Pending renames of async file systems
+  const [pendingDirEntIds, setPendingDirEntIds] = createSignal<Array<string>>([])
+
+  const isDirEntPendingById = createSelector(pendingDirEntIds, (id: string, ids) =>
+    ids.includes(id),
+  )
+
+  // Placeholder of a dirEnt being created
+  const [placeholder, setPlaceholder] = createSignal<{ type: 'file' | 'dir'; parentPath: string }>()
+
+  /**
+   * Row of the dirEnt being created, listed first in its parent dir.
+   * Its path is the path of the parent with a trailing slash, so it can not collide with a dirEnt.
+   */
+  const placeholderDirEnt = createMemo(() => {
+    const _placeholder = placeholder()
+    if (!_placeholder) {
+      return undefined
+    }
+
+    const { type, parentPath } = _placeholder
+    const path = `${parentPath}/`
+    const id = obtainId(path)
+    const noop = () => {}
+
+    return {
+      id,
+      type,
+      path,
+      name: '',
+      indentation: parentPath === config.base ? 0 : getIndentationFromPath(parentPath) + 1,
+      select: noop,
+      deselect: noop,
+      shiftSelect: noop,
+      selected: false,
+      rename: noop,
+      focus() {
+        focusDirEntById(id)
+      },
+      blur() {
+        blurDirEntById(id)
+      },
+      get focused() {
+        return isDirEntFocusedById(id)
+      },
+      get tabbable() {
+        return isDirEntTabbableById(id)
+      },
+      pending: false,
+      readonly: true,
+      locked: false,
+      status: undefined,
+      matches: undefined,
+      placeholder: true,
+      cut: false,
+      // Dir-specific API
+      expand: noop,
+      collapse: noop,
+      expanded: false,
+      loading: false,
+      error: undefined,
+    } as DirEnt
+  })
+
   // Record<Dir, Accessor<DirEnts>>
   const [dirEntsByDirId, setDirEntsByDirId] = createStore<Record<string, Accessor<Array<DirEnt>>>>(
     {},
   )
 
+  /**
+   * DirEnts of the dir, narrowed to the matches and their ancestors while a query is active.
+   * The placeholder of a dirEnt being created comes first.
+   */
   function getDirEntsOfDirId(id: string) {
-    return dirEntsByDirId[id]?.() || []
+    const dirEnts = filterDirEntsByQuery(id, dirEntsByDirId[id]?.() || [])
+    const _placeholderDirEnt = placeholderDirEnt()
+    if (_placeholderDirEnt && placeholder()!.parentPath === idToPath(id)) {
+      return [_placeholderDirEnt, ...dirEnts]
+    }
+    return dirEnts
+  }
+
+  function filterDirEntsByQuery(id: string, dirEnts: Array<DirEnt>) {
+    if (!isQueryActive()) {
+      return dirEnts
+    }
+    // Dirs without matches, expanded by the user, show all their dirEnts
+    const { matches, ancestorIds } = queryResults()
+    if (id !== baseId() && !ancestorIds.has(id)) {
+      return dirEnts
+    }
+    return dirEnts.filter(dirEnt => matches.has(dirEnt.id) || ancestorIds.has(dirEnt.id))
+  }
+
+  // Query
+  function matchDirEnt(dirEnt: { type: DirEnt['type']; path: string }) {
+    const query = config.query
+    if (typeof query === 'function') {
+      return query(dirEnt) ? [] : undefined
+    }
+    if (!query) {
+      return undefined
+    }
+    const name = PathUtils.getName(dirEnt.path)!
+    return config.queryMode === 'fuzzy' ? matchFuzzy(name, query) : matchSubstring(name, query)
+  }
+
+  /** Match ranges by the ids of the matching dirEnts, and the ids of the dirs containing matches. */
+  const queryResults = createMemo(() => {
+    const matches = new Map<string, Array<MatchRange>>()
+    const ancestorIds = new Set<string>()
+
+    if (!isQueryActive()) {
+      return { matches, ancestorIds }
+    }
+
+    function visit(id: string) {
+      let found = false
+      dirEntsByDirId[id]?.().forEach(dirEnt => {
+        const ranges = matchDirEnt(dirEnt)
+        if (ranges) {
+          matches.set(dirEnt.id, ranges)
+          found = true
+        }
+        if (dirEnt.type === 'dir' && visit(dirEnt.id)) {
+          ancestorIds.add(dirEnt.id)
+          found = true
+        }
+      })
+      return found
+    }
+    visit(baseId())
+
+    return { matches, ancestorIds }
+  })
+
+  /** Ids of the dirs to load: all dirs while a query is active, else the expanded dirs. */
+  function getLoadedDirIds() {
+    if (!isQueryActive()) {
+      return [baseId(), ...expandedDirIds()]
+    }
+    const ids = new Set([baseId(), ...expandedDirIds()])
+    const stack = [baseId()]
+    while (stack.length > 0) {
+      dirEntsByDirId[stack.pop()!]?.().forEach(dirEnt => {
+        if (dirEnt.type === 'dir') {
+          ids.add(dirEnt.id)
+          stack.push(dirEnt.id)
+        }
+      })
+    }
+    return Array.from(ids)
   }
 
   // Populate dirEntsByDir
   createEffect(
-    mapArray(
-      () => [baseId(), ...expandedDirIds()],
-      id => {
-        const unsortedDirEnts = createMemo<Array<Dir | File>>(
-          keyArray(
-            () => {
-              if (!props.fs.exists(idToPath(id))) {
-                return null
-              }
-              return props.fs.readdir(idToPath(id), { withFileTypes: true }).map(dirEnt => ({
-                id: obtainId(dirEnt.path),
-                type: dirEnt.type,
-              }))
-            },
-            dirEnt => dirEnt.id,
-            dirEnt => {
-              const indentation = createMemo(() => getIndentationFromPath(idToPath(dirEnt().id)))
-              const name = createMemo(() => PathUtils.getName(idToPath(dirEnt().id))!)
-
-              return {
-                id: dirEnt().id,
-                get type() {
-                  return dirEnt().type
-                },
-                get path() {
-                  return idToPath(dirEnt().id)
-                },
-                get indentation() {
-                  return indentation()
-                },
-                get name() {
-                  return name()
-                },
-                select() {
-                  selectDirEntById(dirEnt().id)
-                },
-                deselect() {
-                  deselectDirEntById(dirEnt().id)
-                },
-                shiftSelect() {
-                  shiftSelectDirEntById(dirEnt().id)
-                },
-                get selected() {
-                  return isDirEntSelectedById(dirEnt().id)
-                },
-                rename(newPath: string) {
-                  renameDirEnt(idToPath(dirEnt().id), newPath)
-                },
-                focus() {
-                  focusDirEntById(dirEnt().id)
-                },
-                blur() {
-                  blurDirEntById(dirEnt().id)
-                },
-                get focused() {
-                  return isDirEntFocusedById(dirEnt().id)
-                },
-                // Dir-specific API
-                get expand() {
-                  if (dirEnt().type === 'file') return undefined
-                  return () => expandDirById(dirEnt().id)
-                },
-                get collapse() {
-                  if (dirEnt().type === 'file') return undefined
-                  return () => collapseDirById(dirEnt().id)
-                },
-                get expanded() {
-                  if (dirEnt().type === 'file') return undefined
-                  return isDirExpandedById(dirEnt().id)
-                },
-              } as DirEnt
-            },
-          ),
-        )
+    mapArray(getLoadedDirIds, id => {
+      // Load the listing of the dir: async file systems only resolve once the dir is expanded
+      createComputed(() => {
+        const path = idToPath(id)
+
+        if (props.fs.exists && !props.fs.exists(path)) {
+          listings.delete(path)
+          return
+        }
+
+        const listing = props.fs.readdir(path, { withFileTypes: true })
 
-        const sortedDirEnts = createMemo(() =>
-          unsortedDirEnts().toSorted(
-            props.sort ??
-              ((a, b) => {
-                if (a.type !== b.type) {
-                  return a.type === 'dir' ? -1 : 1
-                }
-                return a.path.toLowerCase() < b.path.toLowerCase() ? -1 : 1
-              }),
-          ),
+        if (!(listing instanceof Promise)) {
+          listings.set(path, listing)
+          return
+        }
+
+        let stale = false
+        onCleanup(() => (stale = true))
+
+        setDirStates(id, { loading: true, error: undefined })
+        listing.then(
+          listing =>
+            !stale &&
+            batch(() => {
+              listings.set(path, listing)
+              setDirStates(id, { loading: false })
+            }),
+          error => !stale && setDirStates(id, { loading: false, error }),
         )
+      })
 
-        setDirEntsByDirId(id, () => sortedDirEnts)
-        onCleanup(() => setDirEntsByDirId(id, undefined!))
-      },
-    ),
+      // Read the ignore files of the dir
+      createComputed(() => {
+        const path = idToPath(id)
+        const fs = props.fs
+        const ignoreFiles = config.ignoreFiles
+        const listing = listings.get(path)
+
+        if (!fs.readFile || !ignoreFiles?.length || !listing) {
+          ignoreFileRules.delete(path)
+          return
+        }
+
+        const sources = listing
+          .filter(
+            dirEnt =>
+              dirEnt.type === 'file' && ignoreFiles.includes(PathUtils.getName(dirEnt.path)!),
+          )
+          .map(dirEnt => fs.readFile!(dirEnt.path, { encoding: 'utf8' }))
+
+        const setRules = (sources: Array<string>) =>
+          ignoreFileRules.set(
+            path,
+            sources.flatMap(source => parseIgnorePatterns(source, path)),
+          )
+
+        if (!sources.some(source => source instanceof Promise)) {
+          setRules(sources as Array<string>)
+          return
+        }
+
+        let stale = false
+        onCleanup(() => (stale = true))
+        Promise.all(sources).then(sources => !stale && setRules(sources), handleAsyncError)
+      })
+      onCleanup(() => setDirStates(id, undefined))
+
+      const unsortedDirEnts = createMemo<Array<DirEnt>>(
+        keyArray(
+          () => {
+            const path = idToPath(id)
+            if (!exists(path)) {
+              return null
+            }
+            return (
+              listings
+                .get(path)
+                ?.filter(isDirEntVisible)
+                .map(dirEnt => ({
+                  id: obtainId(dirEnt.path),
+                  type: dirEnt.type,
+                })) ?? null
+            )
+          },
+          dirEnt => dirEnt.id,
+          dirEnt => {
+            const indentation = createMemo(() => getIndentationFromPath(idToPath(dirEnt().id)))
+            const name = createMemo(() => PathUtils.getName(idToPath(dirEnt().id))!)
+
+            return {
+              id: dirEnt().id,
+              get type() {
+                return dirEnt().type
+              },
+              get path() {
+                return idToPath(dirEnt().id)
+              },
+              get indentation() {
+                return indentation()
+              },
+              get name() {
+                return name()
+              },
+              select() {
+                selectDirEntById(dirEnt().id)
+              },
+              deselect() {
+                deselectDirEntById(dirEnt().id)
+              },
+              shiftSelect() {
+                shiftSelectDirEntById(dirEnt().id)
+              },
+              get selected() {
+                return isDirEntSelectedById(dirEnt().id)
+              },
+              rename(newPath: string) {
+                renameDirEnt(idToPath(dirEnt().id), newPath)
+              },
+              focus() {
+                focusDirEntById(dirEnt().id)
+              },
+              blur() {
+                blurDirEntById(dirEnt().id)
+              },
+              get focused() {
+                return isDirEntFocusedById(dirEnt().id)
+              },
+              get tabbable() {
+                return isDirEntTabbableById(dirEnt().id)
+              },
+              get pending() {
+                return isDirEntPendingById(dirEnt().id)
+              },
+              get readonly() {
+                return getPermissions(idToPath(dirEnt().id)).readonly
+              },
+              get locked() {
+                return getPermissions(idToPath(dirEnt().id)).locked
+              },
+              get status() {
+                return props.fs.getStatus?.(idToPath(dirEnt().id))
+              },
+              get matches() {
+                return queryResults().matches.get(dirEnt().id)
+              },
+              placeholder: false,
+              get cut() {
+                return isDirEntCutById(dirEnt().id)
+              },
+              // Dir-specific API
+              get expand() {
+                if (dirEnt().type !== 'dir') return undefined
+                return () => expandDirById(dirEnt().id)
+              },
+              get collapse() {
+                if (dirEnt().type !== 'dir') return undefined
+                return () => collapseDirById(dirEnt().id)
+              },
+              get expanded() {
+                if (dirEnt().type !== 'dir') return undefined
+                return isDirExpandedById(dirEnt().id)
+              },
+              get loading() {
+                if (dirEnt().type !== 'dir') return undefined
+                return isDirLoadingById(dirEnt().id)
+              },
+              get error() {
+                if (dirEnt().type !== 'dir') return undefined
+                return getDirErrorById(dirEnt().id)
+              },
+            } as DirEnt
+          },
+        ),
+      )
+
+      const sortedDirEnts = createMemo(() =>
+        unsortedDirEnts().toSorted(
+          props.sort ??
+            ((a, b) => {
+              if (a.type !== b.type) {
+                return a.type === 'dir' ? -1 : 1
+              }
+              return a.path.toLowerCase() < b.path.toLowerCase() ? -1 : 1
+            }),
+        ),
+      )
+
+      setDirEntsByDirId(id, () => sortedDirEnts)
+      onCleanup(() => setDirEntsByDirId(id, undefined!))
+    }),
   )
 
   // DirEnts as a flat list
@@ -508,68 +1224,121 @@ export function FileTree<T>(props: FileTreeProps<T>) {
   })
 
   function getIndentationFromPath(path: string) {
-    return path.split('/').length - config.base.split('/').length
+    return PathUtils.relative(config.base, path).split('/').length - 1
   }
 
   function renameDirEnt(oldPath: string, newPath: string) {
     batch(() => {
+      const result = props.fs.rename(oldPath, newPath)
       beforeRename(oldPath, newPath)
-      props.fs.rename(oldPath, newPath)
-      props.onRename?.(oldPath, newPath)
+
+      if (!(result instanceof Promise)) {
+        props.onRename?.(oldPath, newPath)
+        return
+      }
+
+      // Optimistically move the dirEnt, rolled back if the rename fails
+      const id = pathToId(newPath)
+      const type = getListedType(oldPath)
+      rebaseListings(oldPath, newPath, type)
+      setPendingDirEntIds(ids => [...ids, id])
+
+      result.then(
+        () => {
+          setPendingDirEntIds(ids => ids.filter(_id => _id !== id))
+          props.onRename?.(oldPath, newPath)
+        },
+        error => {
+          batch(() => {
+            setPendingDirEntIds(ids => ids.filter(_id => _id !== id))
+            beforeRename(newPath, oldPath)
+            rebaseListings(newPath, oldPath, type)
+          })
+          handleAsyncError(error)
+        },
+      )
     })
   }
 
-  function moveSelectedDirEntsToPath(targetPath: string) {
-    const targetId = pathToId(targetPath)
-    const ids = selectedDirEntIds()
-    const paths = ids.map(idToPath)
-    const existingPaths = new Array<{ newPath: string; oldPath: string }>()
-
-    // Validate if any of the selected paths are ancestor of the target path
+  /**
+   * Maps the paths to their new location inside the target path.
+   * Descendants of ancestors in the paths are moved along with the ancestor,
+   * only the top-most paths should be applied.
+   * With `resolveCollisions`, taken paths are renamed to a copy instead of throwing.
+   */
+  function getTransforms(
+    paths: Array<string>,
+    targetPath: string,
+    operation: 'move' | 'copy',
+    options?: { resolveCollisions?: boolean },
+  ) {
+    const syscall = operation === 'move' ? 'rename' : 'cp'
+
+    // Validate if any of the paths are ancestor of the target path
     for (const path of paths) {
-      if (path === targetPath) {
-        throw new Error(`Cannot move ${path} into itself.`)
+      if (path === targetPath || PathUtils.isAncestor(targetPath, path)) {
+        throw new InvalidArgumentError(syscall, path, targetPath)
       }
-      if (PathUtils.isAncestor(targetPath, path)) {
-        throw new Error(`Cannot move because ${path} is ancestor of ${targetPath}.`)
+      // Validate permissions before applying any of the transforms
+      if (
+        getPermissions(targetPath).readonly ||
+        (operation === 'move' && getPermissions(path).locked)
+      ) {
+        throw new PermissionError(syscall, path, targetPath)
       }
     }
 
+    const newPaths = new Map<string, string>()
+    const isTaken = (path: string) => exists(path) || Array.from(newPaths.values()).includes(path)
+
     const transforms = paths
       .sort((a, b) => (a.toLowerCase() < b.toLowerCase() ? -1 : 1))
-      .map((oldPath, index, arr) => {
-        const ancestor = arr.slice(0, index).find(path => PathUtils.isAncestor(oldPath, path))
-
-        const newPath = (
-          ancestor
-            ? // If the selection contains an ancestor of the current path
-              // the path is renamed relative to the ancestor
-              [targetPath, PathUtils.getName(ancestor), oldPath.replace(`${ancestor}/`, '')]
-            : [targetPath, PathUtils.getName(oldPath)]
+      .map(oldPath => {
+        const ancestor = Array.from(newPaths.keys()).find(path =>
+          PathUtils.isAncestor(oldPath, path),
         )
-          .filter(Boolean)
-          .join('/')
 
-        if (props.fs.exists(newPath)) {
-          existingPaths.push({ oldPath, newPath })
+        let newPath = ancestor
+          ? // If the paths contain an ancestor of the current path
+            // the path is renamed relative to the ancestor
+            PathUtils.rebase(oldPath, ancestor, newPaths.get(ancestor)!)
+          : PathUtils.join(targetPath, PathUtils.getName(oldPath)!)
+
+        if (!ancestor && isTaken(newPath)) {
+          if (!options?.resolveCollisions) {
+            throw new AlreadyExistsError(syscall, oldPath, newPath)
+          }
+          newPath = getCopyPath(newPath, getListedType(oldPath) ?? 'file', isTaken)
         }
 
-        return { oldPath, newPath, shouldRename: !ancestor }
+        newPaths.set(oldPath, newPath)
+        return { oldPath, newPath, shouldApply: !ancestor }
       })
 
-    if (existingPaths.length > 0) {
-      throw new Error(
-        `Error while moving dirEnts. The following paths already exist:\n${existingPaths
-          .map(({ newPath }) => newPath)
-          .join('\n')}`,
-      )
+    return transforms
+  }
+
+  function handleError(error: unknown) {
+    if (!config.onError) {
+      throw error
     }
+    config.onError(error)
+  }
+
+  /** Failures of async operations have no caller to rethrow to, they are only reported. */
+  function handleAsyncError(error: unknown) {
+    config.onError?.(error)
+  }
+
+  function movePathsToPath(paths: Array<string>, targetPath: string) {
+    const targetId = pathToId(targetPath)
+    const transforms = getTransforms(paths, targetPath, 'move')
 
     // Apply transforms
     batch(() => {
       // Rename the dirEnt in the fileSystem
-      transforms.forEach(({ oldPath, newPath, shouldRename }) => {
-        if (!shouldRename) return
+      transforms.forEach(({ oldPath, newPath, shouldApply }) => {
+        if (!shouldApply) return
         renameDirEnt(oldPath, newPath)
       })
 
@@ -580,6 +1349,454 @@ export function FileTree<T>(props: FileTreeProps<T>) {
     })
   }
 
+  function copyPathsToPath(
+    paths: Array<string>,
+    targetPath: string,
+    options?: { resolveCollisions?: boolean },
+  ) {
+    const cp = props.fs.cp?.bind(props.fs)
+    if (!cp) {
+      throw new NotImplementedError('cp', targetPath)
+    }
+
+    const targetId = pathToId(targetPath)
+    const transforms = getTransforms(paths, targetPath, 'copy', options)
+
+    batch(() => {
+      // Copy the dirEnt in the fileSystem
+      transforms.forEach(({ oldPath, newPath, shouldApply }) => {
+        if (!shouldApply) return
+        const result = cp(oldPath, newPath, { recursive: true })
+        if (result instanceof Promise) {
+          result.catch(handleAsyncError)
+        }
+      })
+
+      // Expand the target-dir (if it wasn't opened yet)
+      if (!isDirExpandedById(targetId)) {
+        expandDirById(targetId)
+      }
+    })
+  }
+
+  function moveSelectedDirEntsToPath(targetPath: string) {
+    movePathsToPath(selectedDirEntIds().map(idToPath), targetPath)
+  }
+
+  function copySelectedDirEntsToPath(targetPath: string) {
+    copyPathsToPath(selectedDirEntIds().map(idToPath), targetPath)
+  }
+
+  // Clipboard
+  const [clipboard, setClipboard] = createSignal<{
+    operation: 'cut' | 'copy'
+    ids: Array<string>
+  }>()
+
+  const cutDirEntIds = createMemo(() =>
+    clipboard()?.operation === 'cut' ? clipboard()!.ids : new Array<string>(),
+  )
+
+  const isDirEntCutById = createSelector(cutDirEntIds, (id: string, ids) => ids.includes(id))
+
+  function setClipboardFromSelection(operation: 'cut' | 'copy') {
+    const ids = selectedDirEntIds()
+    if (ids.length > 0) {
+      setClipboard({ operation, ids })
+    }
+  }
+
+  function paste(targetPath: string) {
+    const _clipboard = clipboard()
+    if (!_clipboard) return
+
+    targetPath = PathUtils.normalize(targetPath)
+    const paths = _clipboard.ids.map(idToPath)
+
+    if (_clipboard.operation === 'copy') {
+      copyPathsToPath(paths, targetPath, { resolveCollisions: true })
+      return
+    }
+
+    batch(() => {
+      // DirEnts pasted into their own parent dir stay in place
+      movePathsToPath(
+        paths.filter(path => PathUtils.getParent(path) !== targetPath),
+        targetPath,
+      )
+      // Cut dirEnts are pasted once
+      setClipboard()
+    })
+  }
+
+  // Cleanup of removed dirEnts from the clipboard
+  createEffect(
+    mapArray(
+      () => clipboard()?.ids ?? [],
+      id => {
+        createEffect(() => {
+          if (!exists(idToPath(id))) {
+            setClipboard(clipboard => {
+              if (!clipboard) return clipboard
+              const ids = clipboard.ids.filter(_id => _id !== id)
+              return ids.length > 0 ? { ...clipboard, ids } : undefined
+            })
+          }
+        })
+      },
+    ),
+  )
+
+  /** Expands the ancestors of the path, up to the base. */
+  function expandAncestors(path: string) {
+    batch(() => {
+      let ancestor = PathUtils.getParent(path)
+      while (PathUtils.isAncestor(ancestor, config.base)) {
+        expandDirById(pathToId(ancestor, false))
+        ancestor = PathUtils.getParent(ancestor)
+      }
+    })
+  }
+
+  // Creation
+  function createDirEntIn(type: 'file' | 'dir', dirPath: string) {
+    dirPath = PathUtils.normalize(dirPath)
+
+    if (getPermissions(dirPath).readonly) {
+      throw new PermissionError(type === 'dir' ? 'mkdir' : 'writeFile', dirPath)
+    }
+
+    batch(() => {
+      setPlaceholder({ type, parentPath: dirPath })
+      expandAncestors(placeholderDirEnt()!.path)
+    })
+    scrollToDirEntById(placeholderDirEnt()!.id)
+  }
+
+  function discardPlaceholder() {
+    const _placeholderDirEnt = placeholderDirEnt()
+    if (!_placeholderDirEnt) return
+    batch(() => {
+      blurDirEntById(_placeholderDirEnt.id)
+      setPlaceholder()
+    })
+  }
+
+  function commitPlaceholder(name: string) {
+    const _placeholder = placeholder()
+    if (!_placeholder) return
+
+    const { type, parentPath } = _placeholder
+    const syscall = type === 'dir' ? 'mkdir' : 'writeFile'
+    const relativePath = PathUtils.normalize(name)
+
+    if (!relativePath) {
+      discardPlaceholder()
+      return
+    }
+
+    const path = PathUtils.join(parentPath, relativePath)
+
+    // Names can not escape the parent dir, p.ex `../a.ts`
+    if (name.split('/').some(part => part === '..') || name.startsWith('/')) {
+      throw new InvalidArgumentError(syscall, path)
+    }
+    if (exists(path)) {
+      throw new AlreadyExistsError(syscall, path)
+    }
+
+    const fs = props.fs
+    if (!fs.mkdir || (type === 'file' && !fs.writeFile)) {
+      throw new NotImplementedError(fs.mkdir ? 'writeFile' : 'mkdir', path)
+    }
+
+    // The top-most dirEnt that is created, the intermediate dir of nested names
+    const [first] = relativePath.split('/')
+    const topPath = PathUtils.join(parentPath, first!)
+    const topType = topPath === path ? type : 'dir'
+
+    const parent = PathUtils.getParent(path)
+    const created =
+      type === 'dir'
+        ? fs.mkdir(path, { recursive: true })
+        : parent === parentPath
+        ? fs.writeFile!(path, '')
+        : chain(fs.mkdir(parent, { recursive: true }), () => fs.writeFile!(path, ''))
+
+    /** Lists the created dirEnt, for file systems whose listings are not reactive. */
+    function onCreated() {
+      batch(() => {
+        const listing = listings.get(parentPath)
+        if (listing && !listing.some(dirEnt => dirEnt.path === topPath)) {
+          listings.set(parentPath, [...listing, { type: topType, path: topPath }])
+        }
+        expandAncestors(path)
+        moveToDirEnt({ id: pathToId(path, false) })
+      })
+    }
+
+    batch(() => {
+      discardPlaceholder()
+      if (created instanceof Promise) {
+        created.then(onCreated, handleAsyncError)
+      } else {
+        onCreated()
+      }
+    })
+  }
+
+  // Keyboard Navigation
+  const keymap = createMemo(() => ({ ...defaultFileTreeKeymap, ...config.keymap }))
+
+  /** Focuses the dirEnt and makes it the only selected dirEnt. */
+  function moveToDirEnt(dirEnt: { id: string } | undefined) {
+    if (!dirEnt) return
+    batch(() => {
+      resetSelectedDirEntIds()
+      selectDirEntById(dirEnt.id)
+      focusDirEntById(dirEnt.id)
+    })
+  }
+
+  /** Focuses the dirEnt and extends the selection up to it. */
+  function extendSelectionToDirEnt(dirEnt: DirEnt | undefined) {
+    if (!dirEnt) return
+    batch(() => {
+      shiftSelectDirEntById(dirEnt.id)
+      focusDirEntById(dirEnt.id)
+    })
+  }
+
+  function executeCommand(command: FileTreeCommand) {
+    const list = flatTree()
+    const index = list.findIndex(dirEnt => dirEnt.id === focusedDirEntId())
+    const focused = list[index]
+
+    switch (command) {
+      case 'next':
+        return moveToDirEnt(list[index + 1])
+      case 'previous':
+        return moveToDirEnt(index === -1 ? lastItem(list) : list[index - 1])
+      case 'first':
+        return moveToDirEnt(list[0])
+      case 'last':
+        return moveToDirEnt(lastItem(list))
+      case 'expand':
+        if (focused?.type !== 'dir') return
+        if (!focused.expanded) {
+          return focused.expand()
+        }
+        return moveToDirEnt(getDirEntsOfDirId(focused.id)[0])
+      case 'collapse':
+        if (focused?.type === 'dir' && focused.expanded) {
+          return focused.collapse()
+        }
+        return (
+          focused &&
+          moveToDirEnt(list.find(dirEnt => dirEnt.path === PathUtils.getParent(focused.path)))
+        )
+      case 'expandSiblings': {
+        if (!focused) return
+        const parentId = pathToId(PathUtils.getParent(focused.path))
+        return batch(() =>
+          getDirEntsOfDirId(parentId).forEach(dirEnt => dirEnt.type === 'dir' && dirEnt.expand()),
+        )
+      }
+      case 'selectNext':
+      case 'selectPrevious': {
+        if (!focused) return
+        const next = list[index + (command === 'selectNext' ? 1 : -1)]
+        return batch(() => {
+          // Anchor the range at the focused dirEnt when the selection does not contain it
+          if (!isDirEntSelectedById(focused.id)) {
+            resetSelectedDirEntIds()
+            selectDirEntById(focused.id)
+          }
+          extendSelectionToDirEnt(next)
+        })
+      }
+      case 'selectAll':
+        return setSelectedDirEntSpans([list.map(dirEnt => dirEnt.id)])
+      case 'cut':
+      case 'copy':
+        return setClipboardFromSelection(command)
+      case 'paste': {
+        const targetPath = !focused
+          ? config.base
+          : focused.type === 'dir'
+          ? focused.path
+          : PathUtils.getParent(focused.path)
+        try {
+          return paste(targetPath)
+        } catch (error) {
+          return handleError(error)
+        }
+      }
+    }
+  }
+
+  // Type-ahead
+  let typeAheadQuery = ''
+  let typeAheadTimeout: ReturnType<typeof setTimeout> | undefined
+  onCleanup(() => clearTimeout(typeAheadTimeout))
+
+  /** Moves to the next dirEnt, starting from the focused one, whose name starts with the query. */
+  function typeAhead(character: string) {
+    clearTimeout(typeAheadTimeout)
+    typeAheadTimeout = setTimeout(() => (typeAheadQuery = ''), TYPE_AHEAD_TIMEOUT)
+    typeAheadQuery += character.toLowerCase()
+
+    // Repeating the same character cycles through the dirEnts starting with it
+    const query = /^(.)\1+$/.test(typeAheadQuery) ? typeAheadQuery[0]! : typeAheadQuery
+
+    const list = flatTree()
+    const index = list.findIndex(dirEnt => dirEnt.id === focusedDirEntId())
+    const start = query.length === 1 ? index + 1 : Math.max(index, 0)
+    const ordered = [...list.slice(start), ...list.slice(0, start)]
+
+    moveToDirEnt(ordered.find(dirEnt => dirEnt.name.toLowerCase().startsWith(query)))
+  }
+
+  function onKeyDown(event: WrapEvent<KeyboardEvent, HTMLDivElement>) {
+    props.onKeyDown?.(event)
+
+    // Leave key events of p.ex FileTree.Name's input alone
+    if (event.defaultPrevented || isEditableElement(event.target)) return
+
+    const command = keymap()[getKeyCombination(event)]
+
+    if (command) {
+      event.preventDefault()
+      executeCommand(command)
+    } else if (
+      command === undefined &&
+      event.key.length === 1 &&
+      event.key !== ' ' &&
+      !event[CTRL_KEY] &&
+      !event.altKey
+    ) {
+      typeAhead(event.key)
+    }
+  }
+
+  // Virtualization
+  let container: HTMLDivElement | undefined
+  const [scrollTop, setScrollTop] = createSignal(0)
+  const [viewportHeight, setViewportHeight] = createSignal(0)
+  const dirEntElements = new Map<string, HTMLElement>()
+
+  function registerDirEntElement(id: string, element: HTMLElement) {
+    dirEntElements.set(id, element)
+    onCleanup(() => {
+      if (dirEntElements.get(id) === element) {
+        dirEntElements.delete(id)
+      }
+    })
+  }
+
+  const flatTreeIndices = createMemo(
+    () => new Map(flatTree().map((dirEnt, index) => [dirEnt.id, index])),
+  )
+
+  const renderedDirEnts = createMemo((previous: Array<DirEnt>) => {
+    if (!config.virtualize) {
+      return flatTree()
+    }
+
+    const { rowHeight, overscan = 10 } = config.virtualize
+    const list = flatTree()
+    const start = Math.max(0, Math.floor(scrollTop() / rowHeight) - overscan)
+    const end = Math.min(
+      list.length,
+      Math.ceil((scrollTop() + viewportHeight()) / rowHeight) + overscan,
+    )
+
+    // Rows out of view keep their state while they are focused, renamed or being edited
+    const activeElement = untrack(() => document.activeElement)
+    const rendered = new Set(
+      list.filter(
+        (dirEnt, index) =>
+          (index >= start && index < end) ||
+          dirEnt.focused ||
+          dirEnt.pending ||
+          !!dirEntElements.get(dirEnt.id)?.contains(activeElement),
+      ),
+    )
+
+    // Rows are positioned absolutely, so rows that stay rendered keep their place in the DOM:
+    // moving the focused element would blur it
+    const kept = previous.filter(dirEnt => rendered.has(dirEnt))
+    kept.forEach(dirEnt => rendered.delete(dirEnt))
+    return [...kept, ...rendered]
+  }, [])
+
+  // Roving tabindex: only one dirEnt of the tree is reachable with Tab
+  const isDirEntTabbableById = createSelector(() => {
+    if (focusedDirEntId()) {
+      return focusedDirEntId()
+    }
+    let first: DirEnt | undefined
+    renderedDirEnts().forEach(dirEnt => {
+      if (!first || flatTreeIndices().get(dirEnt.id)! < flatTreeIndices().get(first.id)!) {
+        first = dirEnt
+      }
+    })
+    return first?.id
+  })
+
+  function scrollToPath(path: string) {
+    path = PathUtils.normalize(path)
+    expandAncestors(path)
+    scrollToDirEntById(pathToId(path))
+  }
+
+  function scrollToDirEntById(id: string) {
+    // Not listed (yet), p.ex while an ancestor is loaded by an async file system
+    const index = flatTreeIndices().get(id)
+    if (index === undefined) return
+
+    if (!config.virtualize) {
+      dirEntElements.get(id)?.scrollIntoView({ block: 'nearest' })
+      return
+    }
+
+    const { rowHeight } = config.virtualize
+    const top = index * rowHeight
+    if (top < scrollTop()) {
+      setScrollTop(top)
+    } else if (top + rowHeight > scrollTop() + viewportHeight()) {
+      setScrollTop(top + rowHeight - viewportHeight())
+    }
+    if (container) {
+      container.scrollTop = scrollTop()
+    }
+  }
+
+  // Keep the focused row in view, p.ex while navigating with the keyboard
+  createEffect(() => {
+    const id = focusedDirEntId()
+    if (config.virtualize && id) {
+      untrack(() => scrollToPath(idToPath(id)))
+    }
+  })
+
+  function ref(element: HTMLDivElement) {
+    container = element
+
+    const onScroll = () => setScrollTop(element.scrollTop)
+    element.addEventListener('scroll', onScroll)
+    onCleanup(() => element.removeEventListener('scroll', onScroll))
+
+    onMount(() => setViewportHeight(element.clientHeight))
+    if (typeof ResizeObserver !== 'undefined') {
+      const observer = new ResizeObserver(() => setViewportHeight(element.clientHeight))
+      observer.observe(element)
+      onCleanup(() => observer.disconnect())
+    }
+
+    config.ref?.(element)
+  }
+
   const fileTreeContext: FileTreeContext<T> = {
     get fs() {
       return config.fs
@@ -587,10 +1804,15 @@ export function FileTree<T>(props: FileTreeProps<T>) {
     get base() {
       return config.base
     },
+    exists,
+    getPermissions,
     expandDirById,
     collapseDirById,
     isDirExpandedById,
+    isDirLoadingById,
+    getDirErrorById,
     moveSelectedDirEntsToPath,
+    copySelectedDirEntsToPath,
     resetSelectedDirEntIds,
     selectDirEntById,
     deselectDirEntById,
@@ -599,7 +1821,20 @@ export function FileTree<T>(props: FileTreeProps<T>) {
     focusDirEnt: focusDirEntById,
     blurDirEnt: blurDirEntById,
     isDirEntFocused: isDirEntFocusedById,
+    cut: () => setClipboardFromSelection('cut'),
+    copy: () => setClipboardFromSelection('copy'),
+    paste,
+    get cutPaths() {
+      return cutDirEntIds().map(idToPath)
+    },
+    createFileIn: dirPath => createDirEntIn('file', dirPath),
+    createDirIn: dirPath => createDirEntIn('dir', dirPath),
+    commitPlaceholder,
+    discardPlaceholder,
     pathToId,
+    scrollToPath,
+    registerDirEntElement,
+    handleError,
   }
 
   // Call event handler with current selection
@@ -610,7 +1845,7 @@ export function FileTree<T>(props: FileTreeProps<T>) {
     if (!props.selectedPaths) return
     setSelectedDirEntSpans(
       props.selectedPaths
-        .filter(path => props.fs.exists(path))
+        .filter(path => exists(path))
         .map(path => [pathToId(path, false)] as [string]),
     )
   })
@@ -619,27 +1854,84 @@ export function FileTree<T>(props: FileTreeProps<T>) {
   createComputed(() => selectedDirEntIds().forEach(freezeId))
   // Freeze ID numbers for expanded dirs
   createComputed(() => expandedDirIds().forEach(freezeId))
+  // Freeze ID numbers for dirEnts with a pending rename
+  createComputed(() => pendingDirEntIds().forEach(freezeId))
+  // Freeze ID numbers for dirEnts in the clipboard
+  createComputed(() => clipboard()?.ids.forEach(freezeId))
+  // Freeze ID numbers for dirs toggled while a query is active
+  createComputed(() => queryToggledDirIds().forEach(freezeId))
 
   return (
     <div
+      role="tree"
+      aria-multiselectable="true"
       {...rest}
+      ref={ref}
+      onKeyDown={onKeyDown}
       onDragOver={event => {
-        event.preventDefault()
+        if (!getPermissions(config.base).readonly) {
+          event.preventDefault()
+          setDropEffect(event)
+        }
         props.onDragOver?.(event)
       }}
       onDrop={event => {
-        moveSelectedDirEntsToPath(config.base)
+        try {
+          if (isCopyEvent(event)) {
+            copySelectedDirEntsToPath(config.base)
+          } else {
+            moveSelectedDirEntsToPath(config.base)
+          }
+        } catch (error) {
+          handleError(error)
+        }
         props.onDrop?.(event)
       }}
     >
       <FileTreeContext.Provider value={fileTreeContext}>
-        <Key each={flatTree()} by={item => item.id}>
-          {dirEnt => (
-            <DirEntContext.Provider value={dirEnt}>
-              {untrack(() => props.children(dirEnt, fileTreeContext))}
-            </DirEntContext.Provider>
+        <Show
+          when={config.virtualize}
+          fallback={
+            <Key each={flatTree()} by={item => item.id}>
+              {dirEnt => (
+                <DirEntContext.Provider value={dirEnt}>
+                  {untrack(() => props.children(dirEnt, fileTreeContext))}
+                </DirEntContext.Provider>
+              )}
+            </Key>
+          }
+        >
+          {virtualize => (
+            <div
+              role="none"
+              style={{
+                position: 'relative',
+                height: `${flatTree().length * virtualize().rowHeight}px`,
+              }}
+            >
+              <Key each={renderedDirEnts()} by={item => item.id}>
+                {dirEnt => (
+                  <div
+                    role="none"
+                    style={{
+                      position: 'absolute',
+                      top: `${
+                        (flatTreeIndices().get(dirEnt().id) ?? 0) * virtualize().rowHeight
+                      }px`,
+                      left: 0,
+                      right: 0,
+                      height: `${virtualize().rowHeight}px`,
+                    }}
+                  >
+                    <DirEntContext.Provider value={dirEnt}>
+                      {untrack(() => props.children(dirEnt, fileTreeContext))}
+                    </DirEntContext.Provider>
+                  </div>
+                )}
+              </Key>
+            </div>
           )}
-        </Key>
+        </Show>
       </FileTreeContext.Provider>
     </div>
   )
@@ -665,8 +1957,51 @@ FileTree.DirEnt = function (
   const fileTree = useFileTree()
   const dirEnt = useDirEnt()
 
+  /** Dirs are dropped into, files into their parent dir. */
+  function getDropTargetPath() {
+    const _dirEnt = dirEnt()
+    return _dirEnt.type === 'dir' ? _dirEnt.path : PathUtils.getParent(_dirEnt.path)
+  }
+
+  /** Siblings of the dirEnt, for its position in the set. */
+  const siblings = () =>
+    fileTree.getDirEntsOfDirId(fileTree.pathToId(PathUtils.getParent(dirEnt().path)))
+
+  /**
+   * Ctrl-clicking a selected dirEnt deselects it, but only once the pointer is released without
+   * dragging: Ctrl-dragging a selected dirEnt copies the selection including that dirEnt.
+   */
+  let deselectOnPointerUp = false
+
+  const attributes = {
+    role: 'treeitem' as const,
+    get tabIndex() {
+      return dirEnt().tabbable ? 0 : -1
+    },
+    get 'aria-level'() {
+      return dirEnt().indentation + 1
+    },
+    get 'aria-expanded'() {
+      const _dirEnt = dirEnt()
+      return _dirEnt.type === 'dir' ? _dirEnt.expanded : undefined
+    },
+    get 'aria-selected'() {
+      return dirEnt().selected
+    },
+    get 'aria-setsize'() {
+      return siblings().length
+    },
+    get 'aria-posinset'() {
+      return siblings().findIndex(sibling => sibling.id === dirEnt().id) + 1
+    },
+  }
+
   const handlers = {
+    get draggable() {
+      return dirEnt().locked ? false : config.draggable
+    },
     ref(element: HTMLButtonElement) {
+      fileTree.registerDirEntElement(dirEnt().id, element)
       createEffect(() => {
         if (dirEnt().focused) {
           element.focus()
@@ -685,13 +2020,21 @@ FileTree.DirEnt = function (
             }
             dirEnt().select()
           } else if (event[CTRL_KEY]) {
-            dirEnt().deselect()
+            deselectOnPointerUp = true
           }
         }
       })
       props.onPointerDown?.(event)
     },
+    onDragStart(event: WrapEvent<DragEvent, HTMLButtonElement>) {
+      deselectOnPointerUp = false
+      props.onDragStart?.(event)
+    },
     onPointerUp(event: WrapEvent<PointerEvent, HTMLButtonElement>) {
+      if (deselectOnPointerUp) {
+        deselectOnPointerUp = false
+        dirEnt().deselect()
+      }
       const _dirEnt = dirEnt()
       if (_dirEnt.type === 'dir') {
         if (_dirEnt.expanded) {
@@ -703,18 +2046,28 @@ FileTree.DirEnt = function (
       props.onPointerUp?.(event)
     },
     onDragOver: (event: WrapEvent<DragEvent, HTMLButtonElement>) => {
-      event.preventDefault()
+      if (fileTree.getPermissions(getDropTargetPath()).readonly) {
+        // Leaving the event uncancelled refuses the drop, the FileTree should not accept it either
+        event.stopPropagation()
+      } else {
+        event.preventDefault()
+        setDropEffect(event)
+      }
       props.onDragOver?.(event)
     },
     onDrop: (event: WrapEvent<DragEvent, HTMLButtonElement>) => {
       event.preventDefault()
       event.stopPropagation()
-      const _dirEnt = dirEnt()
+      const targetPath = getDropTargetPath()
 
-      if (_dirEnt.type === 'dir') {
-        fileTree.moveSelectedDirEntsToPath(_dirEnt.path)
-      } else {
-        fileTree.moveSelectedDirEntsToPath(PathUtils.getParent(_dirEnt.path))
+      try {
+        if (isCopyEvent(event)) {
+          fileTree.copySelectedDirEntsToPath(targetPath)
+        } else {
+          fileTree.moveSelectedDirEntsToPath(targetPath)
+        }
+      } catch (error) {
+        fileTree.handleError(error)
       }
 
       props.onDrop?.(event)
@@ -732,10 +2085,10 @@ FileTree.DirEnt = function (
   return (
     <Show
       when={dirEnt().type === 'dir'}
-      fallback={<button {...config} {...handlers} />}
+      fallback={<button {...attributes} {...config} {...handlers} />}
       children={_ => (
         <Show when={dirEnt().path}>
-          <button {...config} {...handlers}>
+          <button {...attributes} {...config} {...handlers}>
             {props.children}
           </button>
         </Show>
@@ -764,10 +2117,8 @@ FileTree.IndentGuides = function (props: {
   }
 
   function getAncestorAtLevel(index: number) {
-    return dirEnt()
-      .path.split('/')
-      .slice(0, index + 2)
-      .join('/')
+    const parts = PathUtils.relative(fileTree.base, dirEnt().path).split('/')
+    return PathUtils.join(fileTree.base, ...parts.slice(0, index + 2))
   }
 
   function getGuideKind(index: number) {
@@ -782,12 +2133,17 @@ FileTree.IndentGuides = function (props: {
       : 'pipe'
   }
 
+  // Hidden from assistive technology, the level of the dirEnt is announced with `aria-level`
   return (
-    <Index each={Array.from({ length: dirEnt().indentation }, (_, index) => getGuideKind(index))}>
-      {kind => (
-        <IndentGuideContext.Provider value={kind}>{props.render(kind)}</IndentGuideContext.Provider>
-      )}
-    </Index>
+    <span aria-hidden="true" style={{ display: 'contents' }}>
+      <Index each={Array.from({ length: dirEnt().indentation }, (_, index) => getGuideKind(index))}>
+        {kind => (
+          <IndentGuideContext.Provider value={kind}>
+            {props.render(kind)}
+          </IndentGuideContext.Provider>
+        )}
+      </Index>
+    </span>
   )
 }
 
@@ -826,21 +2182,44 @@ FileTree.Name = function (props: {
       return
     }
 
-    if (fileTree.fs.exists(newPath)) {
+    try {
+      if (fileTree.exists(newPath)) {
+        throw new AlreadyExistsError('rename', dirEnt().path, newPath)
+      }
+      dirEnt().rename(newPath)
+      dirEnt().focus()
+    } catch (error) {
       element.value = dirEnt().name
-      throw new Error(`Path ${newPath} already exists.`)
+      fileTree.handleError(error)
     }
+  }
 
-    dirEnt().rename(newPath)
-    dirEnt().focus()
+  /** Creates the dirEnt of a placeholder, an invalid name discards it when committed on blur. */
+  function create(element: HTMLInputElement, discardOnError: boolean) {
+    try {
+      fileTree.commitPlaceholder(element.value)
+    } catch (error) {
+      if (discardOnError) {
+        fileTree.discardPlaceholder()
+      }
+      fileTree.handleError(error)
+    }
   }
 
   return (
     <Show
-      when={props.editable}
+      when={(props.editable || dirEnt().placeholder) && !dirEnt().locked}
       fallback={
         <span class={props.class} style={props.style}>
-          {dirEnt().name}
+          <Show when={dirEnt().matches?.length} fallback={dirEnt().name}>
+            <Index each={splitByRanges(dirEnt().name, dirEnt().matches!)}>
+              {segment => (
+                <Show when={segment().highlighted} fallback={segment().text}>
+                  <mark>{segment().text}</mark>
+                </Show>
+              )}
+            </Index>
+          </Show>
         </span>
       }
     >
@@ -860,11 +2239,19 @@ FileTree.Name = function (props: {
         spellcheck={false}
         onKeyDown={event => {
           if (event.code === 'Enter') {
-            rename(event.currentTarget)
+            if (dirEnt().placeholder) {
+              create(event.currentTarget, false)
+            } else {
+              rename(event.currentTarget)
+            }
+          } else if (event.code === 'Escape' && dirEnt().placeholder) {
+            fileTree.discardPlaceholder()
           }
         }}
         onBlur={event => {
-          if (fileTree.fs.exists(dirEnt().path)) {
+          if (dirEnt().placeholder) {
+            create(event.currentTarget, true)
+          } else if (fileTree.exists(dirEnt().path)) {
             rename(event.currentTarget)
           }
           props.onBlur?.(event)
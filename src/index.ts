@@ -1,4 +1,11 @@
+export * from './create-dirty-tracker'
 export * from './create-file-system'
+export * from './create-history'
+export * from './create-mount-file-system'
+export * from './create-overlay-file-system'
+export * from './create-sync'
+export * from './errors'
 export * from './file-tree'
 export * from './file-tree/defaults'
+export * from './storage'
 export { PathUtils } from './utils'
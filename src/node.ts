@@ -0,0 +1,259 @@
+/// <reference types="node" />
+import * as nodeFs from 'node:fs'
+import * as nodePath from 'node:path'
+import type { FileSystemStorage, StorageChanges, StoredDirEnt } from './storage'
+import { isIgnoredPath, parseIgnorePatterns, PathUtils } from './utils'
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                      Utils                                     */
+/*                                                                                */
+/**********************************************************************************/
+
+/**
+ * Creates a matcher from gitignore-like patterns, see `parseIgnorePatterns`.
+ * The descendants of an ignored directory are ignored as well.
+ */
+function createIgnoreMatcher(patterns: Array<string>) {
+  const rules = parseIgnorePatterns(patterns)
+  return (path: string) => {
+    const parts = path.split('/')
+    return parts.some((_, index) => {
+      const ancestor = parts.slice(0, index + 1).join('/')
+      return isIgnoredPath(rules, ancestor, index < parts.length - 1 ? 'dir' : undefined)
+    })
+  }
+}
+
+const textDecoder = new TextDecoder('utf-8', { fatal: true })
+
+/** Decodes the contents as text, unless they are not valid utf-8 or contain null-bytes. */
+function decodeContents(bytes: Uint8Array): string | Uint8Array {
+  if (bytes.includes(0)) {
+    return bytes
+  }
+  try {
+    return textDecoder.decode(bytes)
+  } catch {
+    return bytes
+  }
+}
+
+/** Serializes the dirEnt to compare it with the last known state of its path. */
+function fingerprint(dirEnt: StoredDirEnt<string | Uint8Array>) {
+  if (dirEnt.type === 'file' && dirEnt.value instanceof Uint8Array) {
+    return JSON.stringify({ type: 'file', bytes: Buffer.from(dirEnt.value).toString('base64') })
+  }
+  return JSON.stringify(dirEnt)
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                               Create Node Storage                              */
+/*                                                                                */
+/**********************************************************************************/
+
+/**
+ * Mirrors a directory on disk with `node:fs`, p.ex to show a project folder in the FileTree.
+ *
+ * Changes of the file system are written to disk, while changes on disk are observed with
+ * `fs.watch` and flow back into the file system. Paths matching the `ignore` patterns are
+ * neither loaded, written nor watched.
+ *
+ * @example
+ * ```ts
+ * const fs = createFileSystem({
+ *   storage: createNodeStorage(process.cwd(), { ignore: ['node_modules', '.git'] }),
+ * })
+ * ```
+ */
+export function createNodeStorage(
+  directory: string,
+  options?: { ignore?: Array<string>; debounce?: number },
+): FileSystemStorage<string | Uint8Array> {
+  const isIgnored = createIgnoreMatcher(options?.ignore ?? [])
+  /** Serialized state of each path as last seen on disk, used to ignore our own writes. */
+  const known = new Map<string, string>()
+
+  function toAbsolutePath(path: string) {
+    return nodePath.join(directory, ...path.split('/'))
+  }
+
+  /** Reads the dirEnt at the given path from disk, `undefined` if it does not exist. */
+  function read(path: string): StoredDirEnt<string | Uint8Array> | undefined {
+    const absolutePath = toAbsolutePath(path)
+    try {
+      const stats = nodeFs.lstatSync(absolutePath)
+      if (stats.isSymbolicLink()) {
+        return { type: 'symlink', target: nodeFs.readlinkSync(absolutePath) }
+      }
+      if (stats.isDirectory()) {
+        return { type: 'dir' }
+      }
+      return { type: 'file', value: decodeContents(nodeFs.readFileSync(absolutePath)) }
+    } catch {
+      return undefined
+    }
+  }
+
+  /** Reads the dirEnt at the given path and all its descendants from disk. */
+  function walk(path: string, entries: Record<string, StoredDirEnt<string | Uint8Array>> = {}) {
+    const dirEnt = read(path)
+    if (!dirEnt) return entries
+    if (path) {
+      entries[path] = dirEnt
+    }
+    if (dirEnt.type === 'dir') {
+      nodeFs.readdirSync(toAbsolutePath(path)).forEach(name => {
+        const childPath = PathUtils.join(path, name)
+        if (!isIgnored(childPath)) {
+          walk(childPath, entries)
+        }
+      })
+    }
+    return entries
+  }
+
+  function write(path: string, dirEnt: StoredDirEnt<string | Uint8Array> | undefined) {
+    const absolutePath = toAbsolutePath(path)
+    if (!dirEnt) {
+      nodeFs.rmSync(absolutePath, { recursive: true, force: true })
+      return
+    }
+    switch (dirEnt.type) {
+      case 'dir':
+        nodeFs.mkdirSync(absolutePath, { recursive: true })
+        break
+      case 'file':
+        nodeFs.mkdirSync(nodePath.dirname(absolutePath), { recursive: true })
+        nodeFs.writeFileSync(absolutePath, dirEnt.value)
+        break
+      case 'symlink':
+        nodeFs.rmSync(absolutePath, { force: true })
+        nodeFs.mkdirSync(nodePath.dirname(absolutePath), { recursive: true })
+        nodeFs.symlinkSync(dirEnt.target, absolutePath)
+        break
+    }
+  }
+
+  return {
+    load() {
+      const entries = walk('')
+      known.clear()
+      Object.entries(entries).forEach(([path, dirEnt]) => known.set(path, fingerprint(dirEnt)))
+      return entries
+    },
+    save(changes) {
+      const entries = Object.entries(changes).filter(([path]) => !isIgnored(path))
+      // Remove before creating, so a renamed path can take the place of a removed one
+      entries
+        .filter(([, dirEnt]) => !dirEnt)
+        .forEach(([path]) => {
+          write(path, undefined)
+          known.delete(path)
+        })
+      entries
+        .filter((entry): entry is [string, StoredDirEnt<string | Uint8Array>] => !!entry[1])
+        .sort(([a], [b]) => PathUtils.compareDepth(a, b))
+        .forEach(([path, dirEnt]) => {
+          write(path, dirEnt)
+          known.set(path, fingerprint(dirEnt))
+        })
+    },
+    subscribe(listener) {
+      const pendingPaths = new Set<string>()
+      let timeout: ReturnType<typeof setTimeout> | undefined
+      // Recursive watchers are not available on linux before node 20, each directory is watched
+      const watchers = new Map<string, nodeFs.FSWatcher>()
+
+      /** Watches the directory at the given path and its descendant directories. */
+      function watch(path: string) {
+        if (watchers.has(path)) return
+        try {
+          const watcher = nodeFs.watch(toAbsolutePath(path), (_, filename) => {
+            if (!filename) return
+            const childPath = PathUtils.join(path, filename)
+            if (isIgnored(childPath)) return
+            pendingPaths.add(childPath)
+            clearTimeout(timeout)
+            timeout = setTimeout(flush, options?.debounce ?? 10)
+          })
+          // Emitted p.ex when the directory is removed, its removal is reported by the parent
+          watcher.on('error', () => unwatch(path))
+          watchers.set(path, watcher)
+
+          nodeFs.readdirSync(toAbsolutePath(path), { withFileTypes: true }).forEach(dirent => {
+            const childPath = PathUtils.join(path, dirent.name)
+            if (dirent.isDirectory() && !isIgnored(childPath)) {
+              watch(childPath)
+            }
+          })
+        } catch {
+          // The directory is removed before it is watched
+          unwatch(path)
+        }
+      }
+
+      /** Stops watching the directory at the given path and its descendant directories. */
+      function unwatch(path: string) {
+        watchers.forEach((watcher, watchedPath) => {
+          if (PathUtils.isSelfOrDescendant(watchedPath, path)) {
+            watcher.close()
+            watchers.delete(watchedPath)
+          }
+        })
+      }
+
+      // Compares the pending paths with their last known state and reports the differences
+      function flush() {
+        const changes: StorageChanges<string | Uint8Array> = {}
+
+        pendingPaths.forEach(path => {
+          const entries = walk(path)
+
+          // Descendants that are no longer on disk
+          known.forEach((_, knownPath) => {
+            if (
+              (knownPath === path || PathUtils.isAncestor(knownPath, path)) &&
+              !(knownPath in entries)
+            ) {
+              changes[knownPath] = undefined
+            }
+          })
+
+          Object.entries(entries).forEach(([path, dirEnt]) => {
+            if (known.get(path) !== fingerprint(dirEnt)) {
+              changes[path] = dirEnt
+            }
+          })
+        })
+        pendingPaths.clear()
+
+        Object.entries(changes).forEach(([path, dirEnt]) => {
+          if (dirEnt) {
+            known.set(path, fingerprint(dirEnt))
+          } else {
+            known.delete(path)
+          }
+          // Directories created on disk are watched from now on
+          if (dirEnt?.type === 'dir') {
+            watch(path)
+          } else {
+            unwatch(path)
+          }
+        })
+
+        if (Object.keys(changes).length > 0) {
+          listener(changes)
+        }
+      }
+
+      watch('')
+
+      return () => {
+        clearTimeout(timeout)
+        unwatch('')
+      }
+    },
+  }
+}
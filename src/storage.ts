@@ -0,0 +1,214 @@
+/**********************************************************************************/
+/*                                                                                */
+/*                                      Types                                     */
+/*                                                                                */
+/**********************************************************************************/
+
+export type StoredDirEnt<T> =
+  | { type: 'dir' }
+  | { type: 'symlink'; target: string }
+  | { type: 'file'; value: T }
+
+/** Record of dirEnts keyed by path. A value of `undefined` marks the path as removed. */
+export type StorageChanges<T> = Record<string, StoredDirEnt<T> | undefined>
+
+export interface FileSystemStorage<T> {
+  /** Returns all persisted dirEnts keyed by path. */
+  load(): Record<string, StoredDirEnt<T>> | Promise<Record<string, StoredDirEnt<T>>>
+  /** Persists the given changes. */
+  save(changes: StorageChanges<T>): void | Promise<void>
+  /**
+   * Listens for changes made to the storage outside of the file system, p.ex by another process.
+   * Returns a function to stop listening.
+   */
+  subscribe?(listener: (changes: StorageChanges<T>) => void): () => void
+}
+
+export interface Serializer<T> {
+  serialize(value: T): string
+  deserialize(value: string): T
+}
+
+const jsonSerializer: Serializer<unknown> = {
+  serialize: JSON.stringify,
+  deserialize: JSON.parse,
+}
+
+function bytesToBase64(bytes: Uint8Array) {
+  let binary = ''
+  bytes.forEach(byte => (binary += String.fromCharCode(byte)))
+  return btoa(binary)
+}
+
+function base64ToBytes(base64: string) {
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0))
+}
+
+function applyChanges<T>(target: Record<string, StoredDirEnt<T>>, changes: StorageChanges<T>) {
+  Object.entries(changes).forEach(([path, dirEnt]) => {
+    if (dirEnt) {
+      target[path] = dirEnt
+    } else {
+      delete target[path]
+    }
+  })
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                              Create Memory Storage                             */
+/*                                                                                */
+/**********************************************************************************/
+
+/** Keeps dirEnts in memory. Can be shared between file systems or used in tests. */
+export function createMemoryStorage<T>(
+  initial: Record<string, StoredDirEnt<T>> = {},
+): FileSystemStorage<T> & { entries(): Record<string, StoredDirEnt<T>> } {
+  const entries = { ...initial }
+  return {
+    load() {
+      return { ...entries }
+    },
+    save(changes) {
+      applyChanges(entries, changes)
+    },
+    entries() {
+      return { ...entries }
+    },
+  }
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                              Create Local Storage                              */
+/*                                                                                */
+/**********************************************************************************/
+
+type LocalStorageDirEnt =
+  | { type: 'dir' }
+  | { type: 'symlink'; target: string }
+  | { type: 'file'; value: string; encoding?: 'base64' }
+
+/**
+ * Persists dirEnts as a single JSON-record in `localStorage` under the given key.
+ * Non-string values can be (de)serialized with a custom `serializer`,
+ * binary values are stored as base64.
+ */
+export function createLocalStorage<T = string>(
+  key: string,
+  options?: { serializer?: Serializer<T>; storage?: Storage },
+): FileSystemStorage<T | Uint8Array> {
+  const serializer = options?.serializer ?? (jsonSerializer as Serializer<T>)
+
+  function getStorage() {
+    return options?.storage ?? localStorage
+  }
+
+  function read(): Record<string, StoredDirEnt<T | Uint8Array>> {
+    const item = getStorage().getItem(key)
+    if (!item) return {}
+
+    const raw: Record<string, LocalStorageDirEnt> = JSON.parse(item)
+    return Object.fromEntries(
+      Object.entries(raw).map(([path, dirEnt]) => [
+        path,
+        dirEnt.type === 'file'
+          ? {
+              type: 'file',
+              value:
+                dirEnt.encoding === 'base64'
+                  ? base64ToBytes(dirEnt.value)
+                  : serializer.deserialize(dirEnt.value),
+            }
+          : dirEnt,
+      ]),
+    )
+  }
+
+  function write(dirEnt: StoredDirEnt<T | Uint8Array>): LocalStorageDirEnt {
+    if (dirEnt.type !== 'file') {
+      return dirEnt
+    }
+    if (dirEnt.value instanceof Uint8Array) {
+      return { type: 'file', value: bytesToBase64(dirEnt.value), encoding: 'base64' }
+    }
+    return { type: 'file', value: serializer.serialize(dirEnt.value) }
+  }
+
+  return {
+    load: read,
+    save(changes) {
+      const entries = read()
+      applyChanges(entries, changes)
+      getStorage().setItem(
+        key,
+        JSON.stringify(
+          Object.fromEntries(
+            Object.entries(entries).map(([path, dirEnt]) => [path, write(dirEnt)]),
+          ),
+        ),
+      )
+    },
+  }
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                             Create IndexedDB Storage                           */
+/*                                                                                */
+/**********************************************************************************/
+
+function promisifyRequest<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Persists dirEnts in an IndexedDB object store, one record per path.
+ * Values are stored with the structured clone algorithm, so no serializer is needed.
+ */
+export function createIndexedDBStorage<T>(
+  name: string,
+  options?: { storeName?: string; indexedDB?: IDBFactory },
+): FileSystemStorage<T> {
+  const storeName = options?.storeName ?? 'dirEnts'
+  let database: Promise<IDBDatabase> | undefined
+
+  function open() {
+    if (!database) {
+      const request = (options?.indexedDB ?? indexedDB).open(name, 1)
+      request.onupgradeneeded = () => request.result.createObjectStore(storeName)
+      database = promisifyRequest(request)
+    }
+    return database
+  }
+
+  return {
+    async load() {
+      const store = (await open()).transaction(storeName, 'readonly').objectStore(storeName)
+      const [paths, dirEnts] = await Promise.all([
+        promisifyRequest(store.getAllKeys()),
+        promisifyRequest(store.getAll()),
+      ])
+      return Object.fromEntries(paths.map((path, index) => [path as string, dirEnts[index]]))
+    },
+    async save(changes) {
+      const transaction = (await open()).transaction(storeName, 'readwrite')
+      const store = transaction.objectStore(storeName)
+      Object.entries(changes).forEach(([path, dirEnt]) => {
+        if (dirEnt) {
+          store.put(dirEnt, path)
+        } else {
+          store.delete(path)
+        }
+      })
+      await new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve()
+        transaction.onerror = () => reject(transaction.error)
+        transaction.onabort = () => reject(transaction.error)
+      })
+    },
+  }
+}
@@ -1,6 +1,61 @@
+import type { StoredDirEnt } from './storage'
+
+/**
+ * POSIX-like path utilities for the paths of the file system.
+ * Paths are relative to the root of the file system: the root is `''` and leading slashes are
+ * stripped. All comparisons are segment-aware, so `a` is never considered an ancestor of `ab/c`.
+ */
 export const PathUtils = {
+  /** Resolves `.` and `..` segments, and removes leading, duplicate and trailing slashes. */
   normalize(path: string) {
-    return path.replace(/^\/+/, '')
+    const parts = new Array<string>()
+    for (const part of path.split('/')) {
+      if (!part || part === '.') continue
+      if (part === '..') {
+        parts.pop()
+      } else {
+        parts.push(part)
+      }
+    }
+    return parts.join('/')
+  },
+  join(...paths: Array<string>) {
+    return PathUtils.normalize(paths.join('/'))
+  },
+  /**
+   * Resolves a sequence of paths from right to left, until a path starting with `/` is found.
+   * p.ex `resolve('a/b', '../c')` returns `a/c` and `resolve('a', '/b')` returns `b`.
+   */
+  resolve(...paths: Array<string>) {
+    const index = paths.findLastIndex(path => path.startsWith('/'))
+    return PathUtils.join(...paths.slice(Math.max(index, 0)))
+  },
+  /** Returns the relative path from `from` to `to`. */
+  relative(from: string, to: string) {
+    const fromParts = PathUtils.normalize(from).split('/').filter(Boolean)
+    const toParts = PathUtils.normalize(to).split('/').filter(Boolean)
+    let index = 0
+    while (index < fromParts.length && fromParts[index] === toParts[index]) {
+      index++
+    }
+    return [...fromParts.slice(index).map(() => '..'), ...toParts.slice(index)].join('/')
+  },
+  dirname(path: string) {
+    return PathUtils.getParent(PathUtils.normalize(path))
+  },
+  /** Returns the last segment of the path, without the given extension. */
+  basename(path: string, extension?: string) {
+    const name = PathUtils.getName(PathUtils.normalize(path)) ?? ''
+    if (extension && name !== extension && name.endsWith(extension)) {
+      return name.slice(0, -extension.length)
+    }
+    return name
+  },
+  /** Returns the extension of the last segment including the dot, p.ex `.ts`. */
+  extname(path: string) {
+    const name = PathUtils.basename(path)
+    const index = name.lastIndexOf('.')
+    return index <= 0 ? '' : name.slice(index)
   },
   getParent(path: string) {
     return path.split('/').slice(0, -1).join('/')
@@ -8,15 +63,32 @@ export const PathUtils = {
   getName(path: string) {
     return lastItem(path.split('/'))
   },
+  /** Checks if `ancestor` is a strict ancestor of `path`. The root is an ancestor of every path. */
   isAncestor(path: string, ancestor: string) {
     if (path === ancestor) return false
+    if (ancestor === '') return true
     const pathParts = path.split('/')
     const ancestorParts = ancestor.split('/')
-    return ancestorParts.every((part, index) => part === pathParts[index])
+    return (
+      ancestorParts.length < pathParts.length &&
+      ancestorParts.every((part, index) => part === pathParts[index])
+    )
+  },
+  /** Checks if `path` is `ancestor` itself or one of its descendants. */
+  isSelfOrDescendant(path: string, ancestor: string) {
+    return path === ancestor || PathUtils.isAncestor(path, ancestor)
+  },
+  /** Compares paths by their amount of segments, to sort ancestors before their descendants. */
+  compareDepth(a: string, b: string) {
+    return a.split('/').length - b.split('/').length
   },
+  /** Moves the path from `from` to `to`, if it is `from` or one of its descendants. */
   rebase(path: string, from: string, to: string) {
-    if (PathUtils.isAncestor(path, from) || path === from) {
-      return path.replace(from, to)
+    if (path === from) {
+      return to
+    }
+    if (PathUtils.isAncestor(path, from)) {
+      return PathUtils.join(to, PathUtils.relative(from, path))
     }
     return path
   },
@@ -25,11 +97,154 @@ export const PathUtils = {
   },
 }
 
+/**
+ * Converts a glob-pattern to a regular expression.
+ * - `*` matches any characters except `/`
+ * - `**` matches any characters, as a full segment it matches zero or more directories
+ * - `?` matches a single character except `/`
+ * - `{a,b}` matches either `a` or `b`
+ * - `[abc]`, `[a-z]` and `[!abc]` match a single character of the class
+ */
+export function globToRegExp(pattern: string) {
+  let source = ''
+  let braceDepth = 0
+
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index]!
+    switch (char) {
+      case '*': {
+        if (pattern[index + 1] !== '*') {
+          source += '[^/]*'
+          break
+        }
+        const isSegmentStart = index === 0 || pattern[index - 1] === '/'
+        index++
+        if (isSegmentStart && pattern[index + 1] === '/') {
+          source += '(?:.*/)?'
+          index++
+        } else {
+          source += '.*'
+        }
+        break
+      }
+      case '?':
+        source += '[^/]'
+        break
+      case '[': {
+        const end = pattern.indexOf(']', index + 2)
+        if (end === -1) {
+          source += '\\['
+          break
+        }
+        const content = pattern.slice(index + 1, end).replace(/\\/g, '\\\\')
+        source += content[0] === '!' ? `[^${content.slice(1)}]` : `[${content}]`
+        index = end
+        break
+      }
+      case '{':
+        braceDepth++
+        source += '(?:'
+        break
+      case '}':
+        if (braceDepth > 0) {
+          braceDepth--
+          source += ')'
+        } else {
+          source += '\\}'
+        }
+        break
+      case ',':
+        source += braceDepth > 0 ? '|' : ','
+        break
+      default:
+        source += char.replace(/[.+^$()|[\]\\]/g, '\\$&')
+    }
+  }
+
+  return new RegExp(`^${source}$`)
+}
+
+export interface IgnoreRule {
+  regExp: RegExp
+  /** The rule re-includes paths that are ignored by previous rules, p.ex `!.env.example`. */
+  negated: boolean
+  /** The rule only matches directories, p.ex `build/`. */
+  dirOnly: boolean
+  /** The rule matches the name of a dirEnt at any depth, rather than its relative path. */
+  matchName: boolean
+  /** Directory the rule is relative to, p.ex the directory of the `.gitignore` it is read from. */
+  base: string
+}
+
+/**
+ * Parses gitignore-like patterns, given as a list or as the contents of an ignore file:
+ * - blank lines and lines starting with `#` are skipped
+ * - patterns without a slash match the name of a dirEnt at any depth, p.ex `node_modules`
+ * - patterns with a slash match the path relative to `base`, p.ex `src/generated`
+ * - patterns ending with a slash only match directories, p.ex `build/`
+ * - patterns starting with `!` re-include paths ignored by previous patterns
+ */
+export function parseIgnorePatterns(source: string | Array<string>, base = ''): Array<IgnoreRule> {
+  const lines = typeof source === 'string' ? source.split(/\r?\n/) : source
+  return lines
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map(line => {
+      const negated = line.startsWith('!')
+      // A leading backslash escapes a literal `!` or `#`
+      const pattern = (negated ? line.slice(1) : line).replace(/^\\/, '')
+      return {
+        regExp: globToRegExp(PathUtils.normalize(pattern)),
+        negated,
+        dirOnly: pattern.endsWith('/'),
+        matchName: !PathUtils.normalize(pattern).includes('/') && !pattern.startsWith('/'),
+        base: PathUtils.normalize(base),
+      }
+    })
+}
+
+/**
+ * Whether the path is ignored by the rules, the last matching rule wins.
+ * Directory-only rules match paths of unknown type. The ancestors of the path are not checked.
+ */
+export function isIgnoredPath(
+  rules: Array<IgnoreRule>,
+  path: string,
+  type?: 'file' | 'dir' | 'symlink',
+) {
+  let ignored = false
+  for (const rule of rules) {
+    if (!PathUtils.isAncestor(path, rule.base)) continue
+    if (rule.dirOnly && type !== undefined && type !== 'dir') continue
+    const relativePath = PathUtils.relative(rule.base, path)
+    if (rule.regExp.test(rule.matchName ? PathUtils.getName(relativePath)! : relativePath)) {
+      ignored = !rule.negated
+    }
+  }
+  return ignored
+}
+
+/** Compares stored dirEnts by type and contents, binary contents are compared byte by byte. */
+export function isEqualDirEnt(a: StoredDirEnt<unknown>, b: StoredDirEnt<unknown>) {
+  if (a.type === 'file' && b.type === 'file') {
+    const [valueA, valueB] = [a.value, b.value]
+    if (valueA instanceof Uint8Array && valueB instanceof Uint8Array) {
+      return valueA.length === valueB.length && valueA.every((byte, i) => byte === valueB[i])
+    }
+    return valueA === valueB
+  }
+  if (a.type === 'symlink' && b.type === 'symlink') {
+    return a.target === b.target
+  }
+  return a.type === b.type
+}
+
 export function lastItem<T>(arr: Array<T>): T | undefined {
   return arr[arr.length - 1]
 }
 
-export const isMac = navigator.platform.startsWith('Mac')
+// `navigator` is undefined outside the browser, p.ex when the node adapter is imported in node
+export const isMac = typeof navigator !== 'undefined' && navigator.platform.startsWith('Mac')
 export const CTRL_KEY = isMac ? 'metaKey' : 'ctrlKey'
 
 export type WrapEvent<TEvent, TCurrentTarget> = TEvent & {
@@ -37,6 +252,23 @@ export type WrapEvent<TEvent, TCurrentTarget> = TEvent & {
   target: Element
 }
 
+/**
+ * Copies the properties of `source` and `overrides` into a new object, like an object spread.
+ * Getters are copied as getters: a spread evaluates them once and freezes their value.
+ */
+export function extend<TSource extends object, TOverrides extends object>(
+  source: TSource,
+  overrides: TOverrides,
+) {
+  return Object.defineProperties(
+    {},
+    {
+      ...Object.getOwnPropertyDescriptors(source),
+      ...Object.getOwnPropertyDescriptors(overrides),
+    },
+  ) as Omit<TSource, keyof TOverrides> & TOverrides
+}
+
 export type Overwrite<TTarget, TSource extends Record<string, unknown>> = Omit<
   TTarget,
   keyof TSource
@@ -1 +1,2254 @@
+import { createMemo, createRoot, createSignal } from 'solid-js'
+import { render } from 'solid-js/web'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createDirtyTracker, diffFileSystems } from '../src/create-dirty-tracker'
+import { createFileSystem, type FileSystem, type WatchEvent } from '../src/create-file-system'
+import { createHistory } from '../src/create-history'
+import { createMountFileSystem } from '../src/create-mount-file-system'
+import { createOverlayFileSystem } from '../src/create-overlay-file-system'
+import { createBroadcastChannelTransport, createSync, type Operation } from '../src/create-sync'
+import {
+  AlreadyExistsError,
+  FileSystemError,
+  InvalidArgumentError,
+  NotFoundError,
+  NotImplementedError,
+} from '../src/errors'
+import { FileTree, type FileTreeProps } from '../src/file-tree'
+import { createLocalStorage, createMemoryStorage, type StorageChanges } from '../src/storage'
+import { globToRegExp, PathUtils } from '../src/utils'
 
+describe('createFileSystem', () => {
+  describe('watch', () => {
+    it('reports changes of the path and its children', () => {
+      const fs = createFileSystem()
+      fs.mkdir('src/components', { recursive: true })
+
+      const events = new Array<WatchEvent>()
+      fs.watch('src', event => events.push(event))
+
+      fs.writeFile('src/index.ts', 'index')
+      fs.writeFile('src/index.ts', 'changed')
+      fs.writeFile('src/components/button.tsx', 'button')
+      fs.writeFile('README.md', 'readme')
+
+      expect(events).toEqual([
+        { type: 'create', path: 'src/index.ts', dirEntType: 'file' },
+        { type: 'change', path: 'src/index.ts' },
+      ])
+    })
+
+    it('reports changes of all descendants when recursive', () => {
+      const fs = createFileSystem()
+      fs.mkdir('src/components', { recursive: true })
+      fs.writeFile('src/components/button.tsx', 'button')
+
+      const events = new Array<WatchEvent>()
+      fs.watch('src', event => events.push(event), { recursive: true })
+
+      fs.rename('src/components', 'src/ui')
+      fs.rm('src', { recursive: true })
+
+      expect(events).toEqual([
+        { type: 'rename', oldPath: 'src/components', path: 'src/ui' },
+        // Descendants are reported before their ancestors
+        { type: 'delete', path: 'src/ui/button.tsx' },
+        { type: 'delete', path: 'src/ui' },
+        { type: 'delete', path: 'src' },
+      ])
+    })
+
+    it('stops watching once unwatched or once its owner is disposed', () => {
+      const fs = createFileSystem()
+      const events = new Array<WatchEvent>()
+
+      const unwatch = fs.watch('', event => events.push(event))
+      createRoot(dispose => {
+        fs.watch('', event => events.push(event))
+        dispose()
+      })
+      unwatch()
+
+      fs.writeFile('index.ts', 'index')
+      expect(events).toEqual([])
+    })
+  })
+
+  describe('storage', () => {
+    it('hydrates from the storage and saves changes after the mutation', async () => {
+      const storage = createMemoryStorage<string>({
+        src: { type: 'dir' },
+        'src/index.ts': { type: 'file', value: 'index' },
+      })
+      const fs = createFileSystem({ storage })
+      expect(fs.readFile('src/index.ts')).toBe('index')
+
+      fs.writeFile('src/index.ts', 'changed')
+      fs.rename('src', 'lib')
+      expect(storage.entries()['src/index.ts']).toEqual({ type: 'file', value: 'index' })
+
+      await Promise.resolve()
+      expect(storage.entries()).toEqual({
+        lib: { type: 'dir' },
+        'lib/index.ts': { type: 'file', value: 'changed' },
+      })
+    })
+
+    it('persists to localStorage as a single record', async () => {
+      const fs = createFileSystem<string>({ storage: createLocalStorage('project') })
+      fs.writeFile('index.ts', 'index')
+      await fs.flush()
+
+      const restored = createFileSystem<string>({ storage: createLocalStorage('project') })
+      expect(restored.readFile('index.ts')).toBe('index')
+      localStorage.removeItem('project')
+    })
+
+    it('reports failures of the storage and saves the changes with the next flush', async () => {
+      const saved = new Array<StorageChanges<string | Uint8Array>>()
+      let quotaExceeded = true
+      const errors = new Array<unknown>()
+      const fs = createFileSystem<string>({
+        storage: {
+          load: () => ({}),
+          async save(changes) {
+            if (quotaExceeded) throw new Error('QuotaExceededError')
+            saved.push(changes)
+          },
+        },
+        onError: error => errors.push(error),
+      })
+
+      fs.writeFile('index.ts', 'index')
+      await new Promise(resolve => setTimeout(resolve))
+      expect(errors).toEqual([new Error('QuotaExceededError')])
+
+      quotaExceeded = false
+      await fs.flush()
+      expect(saved).toEqual([{ 'index.ts': { type: 'file', value: 'index' } }])
+    })
+
+    it('reports a storage that fails to load and rejects ready', async () => {
+      const errors = new Array<unknown>()
+      const fs = createFileSystem<string>({
+        storage: {
+          load: () => Promise.reject(new Error('NotReadableError')),
+          save() {},
+        },
+        onError: error => errors.push(error),
+      })
+
+      await expect(fs.ready).rejects.toThrow('NotReadableError')
+      expect(errors).toEqual([new Error('NotReadableError')])
+    })
+  })
+
+  describe('snapshots', () => {
+    it('exports the dirEnts under a path relative to that path', () => {
+      const fs = createFileSystem()
+      fs.mkdir('src/components', { recursive: true })
+      fs.writeFile('src/index.ts', 'index')
+      fs.symlink('index.ts', 'src/main.ts')
+
+      expect(fs.toJSON()).toEqual({
+        src: { type: 'dir' },
+        'src/components': { type: 'dir' },
+        'src/index.ts': { type: 'file', value: 'index' },
+        'src/main.ts': { type: 'symlink', target: 'index.ts' },
+      })
+      expect(fs.toJSON('src')).toEqual({
+        components: { type: 'dir' },
+        'index.ts': { type: 'file', value: 'index' },
+        'main.ts': { type: 'symlink', target: 'index.ts' },
+      })
+    })
+
+    it('imports a snapshot under a path, leaving other dirEnts untouched', () => {
+      const fs = createFileSystem.from({
+        'README.md': { type: 'file', value: 'readme' },
+        'src/index.ts': { type: 'file', value: 'index' },
+      })
+      expect(fs.readdir('')).toEqual(['README.md', 'src'])
+
+      fs.load({ 'index.ts': { type: 'file', value: 'copy' } }, { path: 'lib/copy' })
+      expect(fs.readFile('lib/copy/index.ts')).toBe('copy')
+      expect(fs.readFile('src/index.ts')).toBe('index')
+    })
+
+    it('round-trips non-string values with a serializer', () => {
+      const serializer = { serialize: JSON.stringify, deserialize: JSON.parse }
+      const fs = createFileSystem<{ count: number }>()
+      fs.writeFile('state.json', { count: 1 })
+
+      const snapshot = fs.toJSON('', { serializer })
+      expect(snapshot).toEqual({ 'state.json': { type: 'file', value: '{"count":1}' } })
+
+      const restored = createFileSystem.from<{ count: number }>(snapshot, { serializer })
+      expect(restored.readFile('state.json')).toEqual({ count: 1 })
+    })
+  })
+
+  describe('copy', () => {
+    it('copies the contents of a file into an independent file', () => {
+      const fs = createFileSystem<string>()
+      fs.writeFile('index.ts', 'index')
+      fs.copyFile('index.ts', 'copy.ts')
+      fs.writeFile('index.ts', 'changed')
+
+      expect(fs.readFile('copy.ts')).toBe('index')
+    })
+
+    it('copies dirs recursively, including their symlinks', () => {
+      const fs = createFileSystem<string>()
+      fs.mkdir('src/components', { recursive: true })
+      fs.writeFile('src/components/button.tsx', 'button')
+      fs.symlink('components/button.tsx', 'src/button.tsx')
+
+      fs.cp('src', 'lib', { recursive: true })
+
+      expect(fs.readFile('lib/components/button.tsx')).toBe('button')
+      expect(fs.readlink('lib/button.tsx')).toBe('components/button.tsx')
+      expect(fs.readFile('lib/button.tsx')).toBe('button')
+    })
+
+    it('refuses to copy dirs without recursive, over existing paths or into themselves', () => {
+      const fs = createFileSystem<string>()
+      fs.mkdir('src/components', { recursive: true })
+      fs.writeFile('index.ts', 'index')
+      fs.writeFile('main.ts', 'main')
+
+      expect(() => fs.cp('src', 'lib')).toThrow(expect.objectContaining({ code: 'EISDIR' }))
+      expect(() => fs.cp('index.ts', 'main.ts')).toThrow(
+        expect.objectContaining({ code: 'EEXIST' }),
+      )
+      expect(() => fs.cp('src', 'src/components/src', { recursive: true })).toThrow(
+        expect.objectContaining({ code: 'EINVAL' }),
+      )
+
+      fs.cp('index.ts', 'main.ts', { force: true })
+      expect(fs.readFile('main.ts')).toBe('index')
+    })
+  })
+
+  describe('errors', () => {
+    function catchError(callback: () => void) {
+      try {
+        callback()
+      } catch (error) {
+        return error
+      }
+      throw new Error('Expected the callback to throw')
+    }
+
+    it('throws typed errors with node-style codes and messages', () => {
+      const fs = createFileSystem<string>()
+      fs.mkdir('src')
+      fs.writeFile('src/index.ts', 'index')
+
+      const error = catchError(() => fs.rename('missing.ts', 'src/index.ts'))
+      expect(error).toBeInstanceOf(NotFoundError)
+      expect(error).toBeInstanceOf(FileSystemError)
+      expect(error).toMatchObject({
+        name: 'NotFoundError',
+        code: 'ENOENT',
+        syscall: 'rename',
+        path: 'missing.ts',
+        dest: 'src/index.ts',
+        message: "ENOENT: no such file or directory, rename 'missing.ts' -> 'src/index.ts'",
+      })
+    })
+
+    it('reports the failing operation and its offending path', () => {
+      const fs = createFileSystem<string>()
+      fs.mkdir('src')
+      fs.writeFile('src/index.ts', 'index')
+
+      expect(catchError(() => fs.mkdir('src'))).toBeInstanceOf(AlreadyExistsError)
+      expect(catchError(() => fs.readdir('src/index.ts'))).toMatchObject({
+        code: 'ENOTDIR',
+        syscall: 'readdir',
+      })
+      expect(catchError(() => fs.readFile('src'))).toMatchObject({
+        code: 'EISDIR',
+        syscall: 'readFile',
+      })
+      expect(catchError(() => fs.rm('src'))).toMatchObject({
+        code: 'ENOTEMPTY',
+        syscall: 'rm',
+        path: 'src',
+      })
+      expect(catchError(() => fs.writeFile('lib/index.ts', ''))).toMatchObject({
+        code: 'ENOENT',
+        path: 'lib',
+      })
+    })
+  })
+
+  describe('paths', () => {
+    it('treats paths with a shared prefix as unrelated', () => {
+      const fs = createFileSystem<string>()
+      fs.mkdir('src')
+      fs.mkdir('srcs')
+      fs.writeFile('src/index.ts', 'src')
+      fs.writeFile('srcs/index.ts', 'srcs')
+
+      fs.rename('src', 'lib')
+      expect(fs.readdir('srcs')).toEqual(['srcs/index.ts'])
+
+      fs.rm('lib', { recursive: true })
+      expect(fs.readFile('srcs/index.ts')).toBe('srcs')
+      expect(fs.toJSON()).toEqual({
+        srcs: { type: 'dir' },
+        'srcs/index.ts': { type: 'file', value: 'srcs' },
+      })
+    })
+
+    it('accepts unnormalized paths', () => {
+      const fs = createFileSystem<string>()
+      fs.mkdir('/src/')
+      fs.writeFile('./src//components/../index.ts', 'index')
+
+      expect(fs.readdir('src/')).toEqual(['src/index.ts'])
+      expect(fs.readFile('/src/index.ts')).toBe('index')
+    })
+  })
+
+  describe('search', () => {
+    function createFixture() {
+      const fs = createFileSystem<string>()
+      fs.mkdir('src/components', { recursive: true })
+      fs.mkdir('node_modules/solid-js', { recursive: true })
+      fs.writeFile('src/index.ts', 'import { Button } from "./components/button"\nButton()')
+      fs.writeFile('src/components/button.tsx', 'export function Button() {}')
+      fs.writeFile('node_modules/solid-js/index.js', 'export function createSignal() {}')
+      return fs
+    }
+
+    it('globs paths relative to cwd, excluding ignored paths and their descendants', () => {
+      const fs = createFixture()
+
+      expect(fs.glob('**/*.{ts,tsx}')).toEqual(['src/components/button.tsx', 'src/index.ts'])
+      expect(fs.glob('**/index.*', { ignore: ['node_modules'] })).toEqual(['src/index.ts'])
+      expect(fs.glob('*', { cwd: 'src' })).toEqual(['components', 'index.ts'])
+    })
+
+    it('throws when cwd does not exist', () => {
+      const fs = createFixture()
+
+      expect(() => fs.glob('*', { cwd: 'scr' })).toThrow(NotFoundError)
+      expect(() => fs.grep('Button', { cwd: 'scr' })).toThrow(NotFoundError)
+    })
+
+    it('greps the contents of files with their line and column', () => {
+      const fs = createFixture()
+
+      expect(fs.grep('Button', { include: 'src/*.ts' })).toEqual([
+        {
+          path: 'src/index.ts',
+          line: 1,
+          column: 10,
+          match: 'Button',
+          text: 'import { Button } from "./components/button"',
+        },
+        { path: 'src/index.ts', line: 2, column: 1, match: 'Button', text: 'Button()' },
+      ])
+      expect(fs.grep(/function \w+/, { cwd: 'node_modules' }).map(({ match }) => match)).toEqual([
+        'function createSignal',
+      ])
+    })
+
+    it('updates the results reactively', () => {
+      const fs = createFixture()
+
+      createRoot(dispose => {
+        const paths = createMemo(() => fs.glob('src/**/*.tsx'))
+        const matches = createMemo(() => fs.grep('TODO').length)
+
+        fs.writeFile('src/components/input.tsx', '// TODO')
+        expect(paths()).toEqual(['src/components/button.tsx', 'src/components/input.tsx'])
+        expect(matches()).toBe(1)
+
+        fs.writeFile('src/index.ts', '// TODO')
+        expect(matches()).toBe(2)
+
+        fs.rename('src/components', 'lib')
+        expect(paths()).toEqual([])
+        dispose()
+      })
+    })
+  })
+
+  describe('symlinks', () => {
+    it('reads and writes through symlinks, listing children relative to the link', () => {
+      const fs = createFileSystem<string>()
+      fs.mkdir('src/components', { recursive: true })
+      fs.writeFile('src/components/button.tsx', 'button')
+      fs.symlink('src/components', 'components')
+
+      expect(fs.readdir('components')).toEqual(['components/button.tsx'])
+      expect(fs.getType('components')).toBe('dir')
+
+      fs.writeFile('components/button.tsx', 'changed')
+      expect(fs.readFile('src/components/button.tsx')).toBe('changed')
+
+      fs.rm('components')
+      expect(fs.exists('components')).toBe(false)
+      expect(fs.readFile('src/components/button.tsx')).toBe('changed')
+    })
+
+    it('keeps dangling symlinks, which exist but can not be followed', () => {
+      const fs = createFileSystem<string>()
+      fs.writeFile('index.ts', 'index')
+      fs.symlink('index.ts', 'link.ts')
+      fs.rm('index.ts')
+
+      expect(fs.exists('link.ts')).toBe(true)
+      expect(fs.readlink('link.ts')).toBe('index.ts')
+      expect(() => fs.readFile('link.ts')).toThrow(expect.objectContaining({ code: 'ENOENT' }))
+
+      // Recreating the target revives the symlink
+      fs.writeFile('index.ts', 'revived')
+      expect(fs.readFile('link.ts')).toBe('revived')
+    })
+
+    it('throws ELOOP on symlink loops instead of recursing forever', () => {
+      const fs = createFileSystem<string>()
+      fs.symlink('b', 'a')
+      fs.symlink('a', 'b')
+      fs.symlink('.', 'self')
+
+      expect(fs.exists('a')).toBe(true)
+      expect(() => fs.readFile('a')).toThrow(expect.objectContaining({ code: 'ELOOP' }))
+      expect(() => fs.stat('b')).toThrow(expect.objectContaining({ code: 'ELOOP' }))
+      expect(() => fs.readdir('self/self/self')).not.toThrow()
+    })
+
+    it('only reads the target of symlinks', () => {
+      const fs = createFileSystem<string>()
+      fs.writeFile('index.ts', 'index')
+
+      expect(() => fs.readlink('index.ts')).toThrow(expect.objectContaining({ code: 'EINVAL' }))
+      expect(() => fs.symlink('index.ts', 'index.ts')).toThrow(
+        expect.objectContaining({ code: 'EEXIST' }),
+      )
+    })
+  })
+
+  describe('permissions', () => {
+    function createFixture() {
+      const fs = createFileSystem<string>()
+      fs.mkdir('src/components', { recursive: true })
+      fs.writeFile('src/index.ts', 'index')
+      fs.writeFile('package.json', '{}')
+      fs.setPermissions('/src/', { readonly: true })
+      fs.setPermissions('package.json', { locked: true })
+      return fs
+    }
+
+    it('applies the initial permissions', () => {
+      const fs = createFileSystem<string>({ permissions: { '/src/': { readonly: true } } })
+      fs.mkdir('src')
+      expect(() => fs.writeFile('src/index.ts', '')).toThrow(
+        expect.objectContaining({ code: 'EPERM' }),
+      )
+    })
+
+    it('refuses writes inside readonly paths and their descendants', () => {
+      const fs = createFixture()
+
+      expect(fs.getPermissions('src/components/button.tsx')).toEqual({
+        readonly: true,
+        locked: false,
+      })
+      expect(() => fs.writeFile('src/index.ts', 'changed')).toThrow(
+        expect.objectContaining({ code: 'EPERM', syscall: 'writeFile', path: 'src/index.ts' }),
+      )
+      expect(() => fs.writeFile('src/components/button.tsx', '')).toThrow(
+        expect.objectContaining({ code: 'EPERM', path: 'src/components/button.tsx' }),
+      )
+      expect(() => fs.mkdir('src/lib')).toThrow(expect.objectContaining({ code: 'EPERM' }))
+      expect(() => fs.rename('package.json', 'src/package.json')).toThrow(
+        expect.objectContaining({ code: 'EPERM' }),
+      )
+
+      fs.setPermissions('src', undefined)
+      fs.writeFile('src/index.ts', 'changed')
+      expect(fs.readFile('src/index.ts')).toBe('changed')
+    })
+
+    it('refuses to rename or remove locked paths and their ancestors', () => {
+      const fs = createFixture()
+      fs.setPermissions('src/index.ts', { locked: true })
+      fs.setPermissions('src', undefined)
+
+      expect(() => fs.rename('package.json', 'manifest.json')).toThrow(
+        expect.objectContaining({ code: 'EPERM', syscall: 'rename' }),
+      )
+      expect(() => fs.rm('package.json')).toThrow(expect.objectContaining({ code: 'EPERM' }))
+      expect(() => fs.rm('src', { recursive: true })).toThrow(
+        expect.objectContaining({ code: 'EPERM', path: 'src' }),
+      )
+
+      // Locked files can still be written to
+      fs.writeFile('package.json', '{ "name": "app" }')
+      expect(fs.readFile('package.json')).toBe('{ "name": "app" }')
+    })
+
+    it('moves explicit permissions along with renamed dirs', () => {
+      const fs = createFixture()
+      fs.setPermissions('src', undefined)
+      fs.setPermissions('src/components', { readonly: true })
+      fs.rename('src', 'lib')
+
+      expect(fs.getPermissions('lib/components').readonly).toBe(true)
+      expect(fs.getPermissions('src/components').readonly).toBe(false)
+    })
+
+    it('refuses to remove or move dirEnts out of readonly dirs', () => {
+      const fs = createFixture()
+
+      expect(() => fs.rm('src/index.ts')).toThrow(
+        expect.objectContaining({ code: 'EPERM', syscall: 'rm', path: 'src/index.ts' }),
+      )
+      expect(() => fs.rename('src/index.ts', 'index.ts')).toThrow(
+        expect.objectContaining({ code: 'EPERM', syscall: 'rename', path: 'src/index.ts' }),
+      )
+
+      // Removing a dir removes the dirEnts inside of it
+      fs.setPermissions('src', undefined)
+      fs.writeFile('src/components/button.tsx', '')
+      fs.setPermissions('src/components', { readonly: true })
+      expect(() => fs.rm('src', { recursive: true })).toThrow(
+        expect.objectContaining({ code: 'EPERM', path: 'src' }),
+      )
+    })
+
+    it('drops the explicit permissions of removed dirEnts', () => {
+      const fs = createFixture()
+      fs.setPermissions('package.json', { readonly: true })
+      fs.setPermissions('src', undefined)
+      fs.setPermissions('src/components', { readonly: true })
+
+      fs.rm('package.json')
+      fs.rm('src', { recursive: true })
+
+      fs.writeFile('package.json', '{}')
+      fs.mkdir('src/components', { recursive: true })
+      expect(fs.getPermissions('package.json')).toEqual({ readonly: false, locked: false })
+      expect(fs.getPermissions('src/components').readonly).toBe(false)
+    })
+  })
+
+  describe('binary files', () => {
+    it('converts contents to the requested encoding', () => {
+      const fs = createFileSystem<string>()
+      fs.writeFile('index.ts', 'héllo')
+      fs.writeFile('image.png', new Uint8Array([104, 105]))
+
+      // The encoder of node creates bytes of another realm than the ones of jsdom
+      expect(Array.from(fs.readFile('index.ts', { encoding: null }))).toEqual([
+        104, 195, 169, 108, 108, 111,
+      ])
+      expect(fs.readFile('image.png', { encoding: 'utf8' })).toBe('hi')
+      expect(fs.readFile('image.png')).toEqual(new Uint8Array([104, 105]))
+      expect(fs.readFile('index.ts')).toBe('héllo')
+    })
+
+    it('reports whether files are binary, reactively', () => {
+      const fs = createFileSystem<string>()
+      fs.writeFile('file', 'text')
+
+      createRoot(dispose => {
+        const binary = createMemo(() => fs.stat('file').binary)
+        expect(binary()).toBe(false)
+
+        fs.writeFile('file', new Uint8Array([1, 2]))
+        expect(binary()).toBe(true)
+        expect(fs.readdir('', { withFileTypes: true })).toEqual([
+          { type: 'file', path: 'file', binary: true },
+        ])
+        dispose()
+      })
+    })
+
+    it('skips binary files when searching contents', () => {
+      const fs = createFileSystem<string>()
+      fs.writeFile('index.ts', 'hi')
+      fs.writeFile('image.png', new Uint8Array([104, 105]))
+
+      expect(fs.grep('hi').map(({ path }) => path)).toEqual(['index.ts'])
+    })
+
+    it('keeps binary contents as bytes in snapshots and localStorage', async () => {
+      const fs = createFileSystem<string>({ storage: createLocalStorage('binary') })
+      fs.writeFile('image.png', new Uint8Array([0, 255]))
+      await fs.flush()
+
+      expect(fs.toJSON()).toEqual({
+        'image.png': { type: 'file', value: new Uint8Array([0, 255]) },
+      })
+      const restored = createFileSystem<string>({ storage: createLocalStorage('binary') })
+      expect(restored.readFile('image.png')).toEqual(new Uint8Array([0, 255]))
+      localStorage.removeItem('binary')
+    })
+  })
+
+  describe('stats', () => {
+    it('updates the size and timestamps reactively', () => {
+      const fs = createFileSystem<string>()
+      fs.writeFile('index.ts', 'index')
+      const stats = fs.stat('index.ts')
+
+      createRoot(dispose => {
+        const size = createMemo(() => stats.size)
+        expect(size()).toBe(5)
+
+        const modifiedAt = stats.modifiedAt
+        fs.writeFile('index.ts', 'changed contents')
+        expect(size()).toBe(16)
+        expect(stats.modifiedAt).toBeGreaterThanOrEqual(modifiedAt)
+        expect(stats.createdAt).toBeLessThanOrEqual(stats.modifiedAt)
+        dispose()
+      })
+    })
+
+    it('follows the dirEnt through renames and outlives its removal', () => {
+      const fs = createFileSystem<string>()
+      fs.writeFile('index.ts', 'index')
+      const stats = fs.stat('index.ts')
+
+      fs.rename('index.ts', 'main.ts')
+      fs.writeFile('main.ts', 'main.ts')
+      expect(stats.size).toBe(7)
+
+      fs.rm('main.ts')
+      expect(stats.type).toBe('file')
+      expect(stats.size).toBe(7)
+      expect(() => fs.stat('main.ts')).toThrow(expect.objectContaining({ code: 'ENOENT' }))
+    })
+
+    it('distinguishes symlinks from their targets with lstat', () => {
+      const fs = createFileSystem<string | Uint8Array>()
+      fs.writeFile('image.png', new Uint8Array([1, 2, 3]))
+      fs.symlink('image.png', 'link.png')
+
+      expect(fs.stat('link.png')).toMatchObject({ type: 'file', size: 3, binary: true })
+      expect(fs.lstat('link.png')).toMatchObject({ type: 'symlink', binary: false })
+      expect(fs.stat('').size).toBe(0)
+    })
+  })
+
+  describe('indexed directories', () => {
+    it('only notifies readers of the parent directory', () => {
+      const fs = createFileSystem()
+      fs.mkdir('a')
+      fs.mkdir('b')
+
+      let aRuns = 0
+      let bRuns = 0
+      const [a, b] = createRoot(() => [
+        createMemo(() => (aRuns++, fs.readdir('a'))),
+        createMemo(() => (bRuns++, fs.readdir('b'))),
+      ])
+
+      expect(a()).toEqual([])
+      expect(b()).toEqual([])
+
+      fs.writeFile('a/index.ts', 'hello')
+      expect(a()).toEqual(['a/index.ts'])
+      expect(b()).toEqual([])
+
+      fs.writeFile('a/index.ts', 'world')
+      expect(a()).toEqual(['a/index.ts'])
+
+      expect(aRuns).toBe(2)
+      expect(bRuns).toBe(1)
+    })
+
+    it('renames and removes subtrees without touching siblings sharing a prefix', () => {
+      const fs = createFileSystem()
+      fs.mkdir('a/b', { recursive: true })
+      fs.mkdir('ab')
+      fs.writeFile('a/b/c.ts', 'c')
+      fs.writeFile('ab/d.ts', 'd')
+
+      fs.rename('a', 'z')
+      expect(fs.readdir('')).toEqual(['ab', 'z'])
+      expect(fs.readFile('z/b/c.ts')).toBe('c')
+
+      fs.rm('z', { recursive: true })
+      expect(fs.readdir('')).toEqual(['ab'])
+      expect(fs.exists('z/b/c.ts')).toBe(false)
+      expect(fs.readFile('ab/d.ts')).toBe('d')
+    })
+
+    it('reads a dir without scanning the rest of the file system', () => {
+      /** Counts the map reads of a tracked readdir of `small`, next to `dirs` dirs of 100 files. */
+      function countReads(dirs: number) {
+        const fs = createFileSystem()
+        for (let i = 0; i < dirs; i++) {
+          fs.mkdir(`dir${i}`)
+          for (let j = 0; j < 100; j++) {
+            fs.writeFile(`dir${i}/file${j}.ts`, '')
+          }
+        }
+        fs.mkdir('small')
+        fs.writeFile('small/index.ts', '')
+
+        const get = vi.spyOn(Map.prototype, 'get')
+        const has = vi.spyOn(Map.prototype, 'has')
+        createRoot(dispose => {
+          createMemo(() => fs.readdir('small'))
+          dispose()
+        })
+        const reads = get.mock.calls.length + has.mock.calls.length
+        get.mockRestore()
+        has.mockRestore()
+        return reads
+      }
+
+      expect(countReads(10)).toBe(countReads(1))
+    })
+  })
+})
+
+describe('PathUtils', () => {
+  it('normalizes dot segments and slashes', () => {
+    expect(PathUtils.normalize('/src//components/./button.tsx/')).toBe('src/components/button.tsx')
+    expect(PathUtils.normalize('src/components/../index.ts')).toBe('src/index.ts')
+    expect(PathUtils.normalize('../..')).toBe('')
+    expect(PathUtils.resolve('src/components', '../index.ts')).toBe('src/index.ts')
+    expect(PathUtils.resolve('src', '/lib', 'index.ts')).toBe('lib/index.ts')
+  })
+
+  it('returns relative paths between segments', () => {
+    expect(PathUtils.relative('src', 'src/components/button.tsx')).toBe('components/button.tsx')
+    expect(PathUtils.relative('src/components', 'src/index.ts')).toBe('../index.ts')
+    expect(PathUtils.relative('src', 'src')).toBe('')
+    expect(PathUtils.relative('', 'src')).toBe('src')
+    expect(PathUtils.relative('a', 'ab/c')).toBe('../ab/c')
+  })
+
+  it('compares ancestors by segment', () => {
+    expect(PathUtils.isAncestor('src/index.ts', 'src')).toBe(true)
+    expect(PathUtils.isAncestor('src/index.ts', '')).toBe(true)
+    expect(PathUtils.isAncestor('src', 'src')).toBe(false)
+    expect(PathUtils.isAncestor('srcs/index.ts', 'src')).toBe(false)
+    expect(PathUtils.isSelfOrDescendant('src', 'src')).toBe(true)
+    expect(PathUtils.isSelfOrDescendant('srcs', 'src')).toBe(false)
+    expect(['a/b/c', 'a', 'a/b'].sort(PathUtils.compareDepth)).toEqual(['a', 'a/b', 'a/b/c'])
+  })
+
+  it('rebases the path and its descendants only', () => {
+    expect(PathUtils.rebase('src', 'src', 'lib')).toBe('lib')
+    expect(PathUtils.rebase('src/index.ts', 'src', 'lib/src')).toBe('lib/src/index.ts')
+    expect(PathUtils.rebase('srcs/index.ts', 'src', 'lib')).toBe('srcs/index.ts')
+    expect(PathUtils.rebase('index.ts', '', 'lib')).toBe('lib/index.ts')
+  })
+
+  it('splits names and extensions', () => {
+    expect(PathUtils.dirname('src/components/button.tsx')).toBe('src/components')
+    expect(PathUtils.basename('src/button.tsx', '.tsx')).toBe('button')
+    expect(PathUtils.extname('src/button.test.tsx')).toBe('.tsx')
+    expect(PathUtils.extname('.gitignore')).toBe('')
+  })
+})
+
+describe('globToRegExp', () => {
+  function matches(pattern: string, paths: Array<string>) {
+    const regex = globToRegExp(pattern)
+    return paths.filter(path => regex.test(path))
+  }
+
+  it('matches wildcards within a single segment', () => {
+    expect(matches('*.ts', ['index.ts', 'src/index.ts', 'index.tsx'])).toEqual(['index.ts'])
+    expect(matches('src/?.ts', ['src/a.ts', 'src/ab.ts', 'src//.ts'])).toEqual(['src/a.ts'])
+  })
+
+  it('matches zero or more directories with globstars', () => {
+    expect(matches('**/*.ts', ['index.ts', 'src/index.ts', 'src/a/b/index.ts'])).toEqual([
+      'index.ts',
+      'src/index.ts',
+      'src/a/b/index.ts',
+    ])
+    expect(matches('src/**/index.ts', ['src/index.ts', 'src/a/index.ts', 'lib/index.ts'])).toEqual([
+      'src/index.ts',
+      'src/a/index.ts',
+    ])
+  })
+
+  it('matches braces and character classes', () => {
+    expect(matches('*.{ts,tsx}', ['a.ts', 'a.tsx', 'a.js'])).toEqual(['a.ts', 'a.tsx'])
+    expect(matches('[a-c].ts', ['a.ts', 'c.ts', 'd.ts'])).toEqual(['a.ts', 'c.ts'])
+    expect(matches('[!a].ts', ['a.ts', 'b.ts'])).toEqual(['b.ts'])
+  })
+
+  it('escapes regular expression characters', () => {
+    expect(matches('a+b.(ts)', ['a+b.(ts)', 'aab.(ts)', 'a+bxts'])).toEqual(['a+b.(ts)'])
+  })
+})
+
+describe('createHistory', () => {
+  it('undoes and redoes mutations', async () => {
+    const fs = createHistory(createFileSystem<string>())
+    fs.writeFile('index.ts', 'initial')
+    await Promise.resolve()
+    fs.writeFile('index.ts', 'changed')
+    await Promise.resolve()
+    fs.rename('index.ts', 'main.ts')
+    await Promise.resolve()
+
+    fs.undo()
+    expect(fs.exists('main.ts')).toBe(false)
+    expect(fs.readFile('index.ts')).toBe('changed')
+
+    fs.undo()
+    expect(fs.readFile('index.ts')).toBe('initial')
+    expect(fs.canRedo).toBe(true)
+
+    fs.redo()
+    fs.redo()
+    expect(fs.readFile('main.ts')).toBe('changed')
+    expect(fs.canRedo).toBe(false)
+
+    fs.undo()
+    fs.writeFile('other.ts', 'other')
+    expect(fs.canRedo).toBe(false)
+  })
+
+  it('groups synchronous mutations and explicit transactions into one step', async () => {
+    const fs = createHistory(createFileSystem<string>())
+    fs.mkdir('src/components', { recursive: true })
+    fs.writeFile('src/index.ts', 'index')
+    await Promise.resolve()
+
+    fs.transaction(() => {
+      fs.writeFile('src/a.ts', 'a')
+      fs.writeFile('src/b.ts', 'b')
+    })
+    fs.writeFile('src/c.ts', 'c')
+    await Promise.resolve()
+
+    fs.undo()
+    expect(fs.readdir('src')).toEqual(['src/components', 'src/index.ts', 'src/a.ts', 'src/b.ts'])
+
+    fs.undo()
+    expect(fs.readdir('src')).toEqual(['src/components', 'src/index.ts'])
+
+    fs.undo()
+    expect(fs.exists('src')).toBe(false)
+    expect(fs.canUndo).toBe(false)
+  })
+
+  it('restores removed and overwritten dirEnts with their contents', async () => {
+    const fs = createHistory(createFileSystem<string>())
+    fs.mkdir('src/components', { recursive: true })
+    fs.writeFile('src/components/button.tsx', 'button')
+    fs.symlink('components/button.tsx', 'src/button.tsx')
+    fs.mkdir('lib')
+    fs.writeFile('lib/index.ts', 'lib')
+    await Promise.resolve()
+
+    fs.rm('src', { recursive: true })
+    await Promise.resolve()
+    fs.undo()
+    expect(fs.readFile('src/components/button.tsx')).toBe('button')
+    expect(fs.readlink('src/button.tsx')).toBe('components/button.tsx')
+
+    fs.cp('lib', 'src/components', { recursive: true, force: true })
+    await Promise.resolve()
+    expect(fs.exists('src/components/index.ts')).toBe(true)
+
+    fs.undo()
+    expect(fs.readdir('src/components')).toEqual(['src/components/button.tsx'])
+
+    fs.redo()
+    expect(fs.readFile('src/components/index.ts')).toBe('lib')
+  })
+
+  it('restores binary contents', async () => {
+    const fs = createHistory(createFileSystem<string>())
+    fs.writeFile('logo.png', new Uint8Array([1, 2]))
+    await Promise.resolve()
+    fs.writeFile('logo.png', new Uint8Array([3]))
+    await Promise.resolve()
+
+    fs.undo()
+    expect(Array.from(fs.readFile('logo.png', { encoding: null }))).toEqual([1, 2])
+    fs.redo()
+    expect(Array.from(fs.readFile('logo.png', { encoding: null }))).toEqual([3])
+  })
+
+  it('records symlinks', async () => {
+    const fs = createHistory(createFileSystem<string>())
+    fs.writeFile('index.ts', 'index')
+    await Promise.resolve()
+    fs.symlink('index.ts', 'main.ts')
+    await Promise.resolve()
+
+    fs.undo()
+    expect(fs.exists('main.ts')).toBe(false)
+    fs.undo()
+    expect(fs.exists('index.ts')).toBe(false)
+
+    fs.redo()
+    fs.redo()
+    expect(fs.readlink('main.ts')).toBe('index.ts')
+  })
+
+  it('records loads of snapshots', async () => {
+    const fs = createHistory(createFileSystem<string>())
+    fs.mkdir('src')
+    fs.writeFile('src/index.ts', 'index')
+    await Promise.resolve()
+
+    fs.load(
+      { 'index.ts': { type: 'file', value: 'changed' }, 'a.ts': { type: 'file', value: 'a' } },
+      { path: 'src' },
+    )
+    fs.load({ 'b.ts': { type: 'file', value: 'b' } }, { path: 'lib/nested' })
+    await Promise.resolve()
+
+    fs.undo()
+    expect(fs.toJSON()).toEqual({
+      src: { type: 'dir' },
+      'src/index.ts': { type: 'file', value: 'index' },
+    })
+
+    fs.redo()
+    expect(fs.readFile('src/a.ts')).toBe('a')
+    expect(fs.readFile('lib/nested/b.ts')).toBe('b')
+  })
+})
+
+describe('createOverlayFileSystem', () => {
+  function createFixture() {
+    const lower = createFileSystem<string>()
+    lower.mkdir('src/components', { recursive: true })
+    lower.writeFile('src/index.ts', 'index')
+    lower.writeFile('src/components/button.tsx', 'button')
+    const upper = createFileSystem<string>()
+    return { lower, upper, overlay: createOverlayFileSystem(lower, upper) }
+  }
+
+  it('writes to the upper layer and reads through to the lower layer', () => {
+    const { lower, upper, overlay } = createFixture()
+
+    overlay.writeFile('src/components/button.tsx', 'changed')
+
+    expect(overlay.readFile('src/components/button.tsx')).toBe('changed')
+    expect(overlay.readFile('src/index.ts', { encoding: null })).toHaveLength(5)
+    expect(lower.readFile('src/components/button.tsx')).toBe('button')
+    // The ancestors of the written file are copied up
+    expect(upper.toJSON()).toEqual({
+      src: { type: 'dir' },
+      'src/components': { type: 'dir' },
+      'src/components/button.tsx': { type: 'file', value: 'changed' },
+    })
+    expect(overlay.readdir('src')).toEqual(['src/components', 'src/index.ts'])
+  })
+
+  it('hides removed paths of the lower layer with whiteouts', () => {
+    const { lower, overlay } = createFixture()
+
+    overlay.rm('src/components', { recursive: true })
+    expect(overlay.exists('src/components/button.tsx')).toBe(false)
+    expect(overlay.readdir('src')).toEqual(['src/index.ts'])
+    expect(overlay.getWhiteouts()).toEqual(['src/components'])
+    expect(lower.exists('src/components/button.tsx')).toBe(true)
+
+    // Recreating a removed dir starts out empty
+    overlay.mkdir('src/components')
+    expect(overlay.readdir('src/components')).toEqual([])
+    expect(overlay.getWhiteouts()).toEqual(['src/components/button.tsx'])
+  })
+
+  it('copies renamed paths of the lower layer up', () => {
+    const { lower, upper, overlay } = createFixture()
+
+    overlay.rename('src/components', 'lib')
+
+    expect(overlay.readFile('lib/button.tsx')).toBe('button')
+    expect(overlay.exists('src/components')).toBe(false)
+    expect(upper.readFile('lib/button.tsx')).toBe('button')
+    expect(lower.exists('lib')).toBe(false)
+  })
+
+  it('copies symlinks of the lower layer up as links', () => {
+    const { lower, upper, overlay } = createFixture()
+    lower.symlink('../index.ts', 'src/components/index.ts')
+    lower.symlink('index.ts', 'src/main.ts')
+
+    overlay.rename('src/main.ts', 'src/entry.ts')
+    overlay.rename('src/components', 'lib')
+
+    expect(upper.lstat('src/entry.ts').type).toBe('symlink')
+    expect(upper.readlink('src/entry.ts')).toBe('index.ts')
+    expect(upper.lstat('lib/index.ts').type).toBe('symlink')
+    expect(upper.readlink('lib/index.ts')).toBe('../index.ts')
+    expect(overlay.exists('src/main.ts')).toBe(false)
+  })
+
+  it('reports the failing operation', () => {
+    const { overlay } = createFixture()
+
+    expect(() => overlay.readdir('missing')).toThrow(
+      expect.objectContaining({ code: 'ENOENT', syscall: 'readdir', path: 'missing' }),
+    )
+    expect(() => overlay.readdir('src/index.ts')).toThrow(
+      expect.objectContaining({ code: 'ENOTDIR', syscall: 'readdir' }),
+    )
+  })
+})
+
+describe('createMountFileSystem', () => {
+  function createFixture() {
+    const root = createFileSystem<string>()
+    root.mkdir('src')
+    root.writeFile('src/index.ts', 'index')
+    root.mkdir('node_modules')
+    const modules = createFileSystem<string>()
+    modules.mkdir('solid-js')
+    modules.writeFile('solid-js/index.js', 'solid')
+    const fs = createMountFileSystem(root)
+    fs.mount('node_modules', modules)
+    return { root, modules, fs }
+  }
+
+  it('delegates to the file system of the mount point', () => {
+    const { root, modules, fs } = createFixture()
+
+    expect(fs.readdir('node_modules')).toEqual(['node_modules/solid-js'])
+    expect(fs.readFile('node_modules/solid-js/index.js', { encoding: 'utf8' })).toBe('solid')
+
+    fs.writeFile('node_modules/solid-js/web.js', 'web')
+    expect(modules.readFile('solid-js/web.js')).toBe('web')
+    expect(root.readdir('node_modules')).toEqual([])
+
+    fs.unmount('node_modules')
+    expect(fs.exists('node_modules/solid-js')).toBe(false)
+  })
+
+  it('composes with overlays', () => {
+    const { fs } = createFixture()
+    const overlay = createOverlayFileSystem(createFileSystem<string>(), createFileSystem<string>())
+    overlay.writeFile('index.ts', 'overlay')
+    fs.mount('src/lib', overlay)
+
+    expect(fs.readFile('src/lib/index.ts')).toBe('overlay')
+  })
+
+  it('refuses to rename across mounts and to remove mount points', () => {
+    const { fs } = createFixture()
+
+    expect(() => fs.rename('src/index.ts', 'node_modules/index.ts')).toThrow(
+      expect.objectContaining({ code: 'EXDEV', syscall: 'rename' }),
+    )
+    expect(() => fs.rm('node_modules', { recursive: true })).toThrow(
+      expect.objectContaining({ code: 'EBUSY' }),
+    )
+    expect(() => fs.rename('node_modules', 'modules')).toThrow(
+      expect.objectContaining({ code: 'EBUSY' }),
+    )
+    expect(() => fs.mount('node_modules', createFileSystem())).toThrow(
+      expect.objectContaining({ code: 'EBUSY', syscall: 'mount' }),
+    )
+  })
+})
+
+describe('diffFileSystems', () => {
+  const template = {
+    'README.md': { type: 'file', value: 'readme' },
+    src: { type: 'dir' },
+    'src/index.ts': { type: 'file', value: 'index' },
+    'src/components': { type: 'dir' },
+    'src/components/button.tsx': { type: 'file', value: 'button' },
+  } as const
+
+  it('lists added, removed and modified dirEnts', () => {
+    const fs = createFileSystem.from(template)
+    fs.writeFile('src/index.ts', 'changed')
+    fs.writeFile('src/main.ts', 'main')
+    fs.rm('README.md')
+
+    expect(diffFileSystems(template, fs)).toEqual([
+      { type: 'removed', path: 'README.md' },
+      { type: 'modified', path: 'src/index.ts' },
+      { type: 'added', path: 'src/main.ts' },
+    ])
+  })
+
+  it('pairs dirEnts with unique contents as renames, without their descendants', () => {
+    const fs = createFileSystem.from(template)
+    fs.rename('src/components', 'components')
+    fs.rename('README.md', 'src/README.md')
+
+    expect(diffFileSystems(template, fs)).toEqual([
+      { type: 'renamed', path: 'components', oldPath: 'src/components' },
+      { type: 'renamed', path: 'src/README.md', oldPath: 'README.md' },
+    ])
+  })
+
+  it('does not pair dirEnts with ambiguous contents', () => {
+    const fs = createFileSystem.from(template)
+    fs.writeFile('a.ts', 'index')
+    fs.writeFile('b.ts', 'index')
+    fs.rm('src/index.ts')
+
+    expect(diffFileSystems(template, fs)).toEqual([
+      { type: 'added', path: 'a.ts' },
+      { type: 'added', path: 'b.ts' },
+      { type: 'removed', path: 'src/index.ts' },
+    ])
+  })
+})
+
+describe('createDirtyTracker', () => {
+  const template = {
+    src: { type: 'dir' },
+    'src/index.ts': { type: 'file', value: 'index' },
+    'src/components': { type: 'dir' },
+    'src/components/button.tsx': { type: 'file', value: 'button' },
+  } as const
+
+  it('updates the changes and statuses reactively', () => {
+    createRoot(dispose => {
+      const fs = createDirtyTracker(createFileSystem.from(template), template)
+      expect(fs.changes()).toEqual([])
+
+      fs.writeFile('src/index.ts', 'changed')
+      expect(fs.getStatus('src/index.ts')).toBe('modified')
+      expect(fs.getStatus('src')).toBe('modified')
+      expect(fs.getStatus('src/components')).toBeUndefined()
+
+      fs.rename('src/components', 'components')
+      expect(fs.getStatus('components')).toBe('renamed')
+      expect(fs.getStatus('components/button.tsx')).toBeUndefined()
+
+      // Reverting the changes makes the paths clean again
+      fs.writeFile('src/index.ts', 'index')
+      fs.rename('components', 'src/components')
+      expect(fs.changes()).toEqual([])
+      expect(fs.getStatus('src')).toBeUndefined()
+      dispose()
+    })
+  })
+
+  it('starts from the changes the file system already has', () => {
+    createRoot(dispose => {
+      const tracked = createFileSystem.from(template)
+      tracked.rm('src/components', { recursive: true })
+      const fs = createDirtyTracker(tracked, template)
+
+      expect(fs.changes()).toEqual([
+        { type: 'removed', path: 'src/components' },
+        { type: 'removed', path: 'src/components/button.tsx' },
+      ])
+      dispose()
+    })
+  })
+
+  it('only compares the changed paths', () => {
+    createRoot(dispose => {
+      const tracked = createFileSystem<string>()
+      for (let i = 0; i < 100; i++) {
+        tracked.writeFile(`file${i}.ts`, '')
+      }
+      const toJSON = vi.spyOn(tracked, 'toJSON')
+      const lstat = vi.spyOn(tracked, 'lstat')
+      const fs = createDirtyTracker(tracked, tracked.toJSON())
+      toJSON.mockClear()
+
+      fs.writeFile('file0.ts', 'changed')
+      fs.writeFile('file1.ts', 'changed')
+      expect(fs.changes()).toHaveLength(2)
+
+      // The whole file system is not snapshotted again, only the changed files are read
+      expect(toJSON.mock.calls.filter(([path]) => !path)).toHaveLength(0)
+      expect(lstat.mock.calls.length).toBeLessThan(10)
+      dispose()
+    })
+  })
+
+  it('stops watching once its root is disposed', () => {
+    const tracked = createFileSystem.from(template)
+    const unwatch = vi.fn()
+    vi.spyOn(tracked, 'watch').mockReturnValue(unwatch)
+
+    createRoot(dispose => {
+      createDirtyTracker(tracked, template)
+      dispose()
+    })
+    expect(unwatch).toHaveBeenCalledOnce()
+  })
+
+  it('keeps the getters of the wrapped file system live', () => {
+    createRoot(dispose => {
+      const fs = createDirtyTracker(
+        createHistory(createFileSystem.from<string>(template)),
+        template,
+      )
+
+      expect(fs.canUndo).toBe(false)
+      fs.writeFile('src/index.ts', 'changed')
+      expect(fs.canUndo).toBe(true)
+      expect(fs.getStatus('src/index.ts')).toBe('modified')
+
+      fs.undo()
+      expect(fs.canUndo).toBe(false)
+      expect(fs.changes()).toEqual([])
+      dispose()
+    })
+  })
+})
+
+describe('createSync', () => {
+  /** Creates connected channels that deliver messages to every other channel, like `BroadcastChannel`. */
+  function createFakeChannels(count: number) {
+    class FakeChannel extends EventTarget {
+      queue = new Array<unknown>()
+      postMessage(data: unknown) {
+        channels
+          .filter(channel => channel !== this)
+          .forEach(channel => channel.queue.push(structuredClone(data)))
+      }
+      /** Delivers the queued messages, so tests control the order of arrival. */
+      deliver() {
+        this.queue
+          .splice(0)
+          .forEach(data => this.dispatchEvent(new MessageEvent('message', { data })))
+      }
+    }
+    const channels = Array.from({ length: count }, () => new FakeChannel())
+    return channels
+  }
+
+  function createPeers() {
+    const [channelA, channelB] = createFakeChannels(2)
+    const snapshot = { 'src/index.ts': { type: 'file', value: 'index' } } as const
+    const fsA = createFileSystem.from(snapshot)
+    const fsB = createFileSystem.from(snapshot)
+    return createRoot(dispose => ({
+      dispose,
+      channelA: channelA!,
+      channelB: channelB!,
+      a: createSync(fsA, { id: 'a', transport: createBroadcastChannelTransport(channelA!) }),
+      b: createSync(fsB, { id: 'b', transport: createBroadcastChannelTransport(channelB!) }),
+    }))
+  }
+
+  it('replays the operations of another peer', () => {
+    const { a, b, channelB, dispose } = createPeers()
+
+    a.mkdir('src/components')
+    a.writeFile('src/components/button.tsx', 'button')
+    a.rename('src/index.ts', 'src/main.ts')
+    channelB.deliver()
+
+    expect(b.readdir('src')).toEqual(['src/components', 'src/main.ts'])
+    expect(b.readFile('src/components/button.tsx')).toBe('button')
+    expect(b.operations()).toEqual(a.operations())
+    dispose()
+  })
+
+  it('converges when peers make concurrent changes', () => {
+    const { a, b, channelA, channelB, dispose } = createPeers()
+
+    a.writeFile('src/index.ts', 'from a')
+    a.writeFile('src/a.ts', 'a')
+    b.rm('src', { recursive: true })
+    b.writeFile('readme.md', 'b')
+
+    channelA.deliver()
+    channelB.deliver()
+
+    expect(a.toJSON()).toEqual(b.toJSON())
+    // Ordered by version: a writes index.ts, b removes src, a writes a.ts, b writes readme.md
+    expect(a.readdir('src')).toEqual(['src/a.ts'])
+    expect(a.readFile('readme.md')).toBe('b')
+    expect(a.operations().map(({ id }) => id)).toEqual(b.operations().map(({ id }) => id))
+    dispose()
+  })
+
+  it('ignores operations that were applied before', () => {
+    const { a, b, channelB, dispose } = createPeers()
+
+    a.writeFile('src/a.ts', 'a')
+    channelB.deliver()
+    b.applyOperations(a.operations() as Array<Operation>)
+
+    expect(b.operations()).toHaveLength(1)
+    expect(b.readFile('src/a.ts')).toBe('a')
+    dispose()
+  })
+
+  it('replays symlinks, also when copied along with their dir', () => {
+    const { a, b, channelB, dispose } = createPeers()
+
+    a.symlink('index.ts', 'src/main.ts')
+    a.cp('src', 'lib', { recursive: true })
+    channelB.deliver()
+
+    expect(b.readlink('src/main.ts')).toBe('index.ts')
+    expect(b.readlink('lib/main.ts')).toBe('index.ts')
+    expect(b.toJSON()).toEqual(a.toJSON())
+    dispose()
+  })
+
+  it('folds the oldest operations once the log exceeds the limit', () => {
+    const [channelA, channelB] = createFakeChannels(2)
+    const { a, b, dispose } = createRoot(dispose => ({
+      dispose,
+      a: createSync(createFileSystem<string>(), {
+        id: 'a',
+        limit: 4,
+        transport: createBroadcastChannelTransport(channelA!),
+      }),
+      b: createSync(createFileSystem<string>(), {
+        id: 'b',
+        limit: 4,
+        transport: createBroadcastChannelTransport(channelB!),
+      }),
+    }))
+
+    for (let index = 0; index < 10; index++) {
+      a.writeFile(`${index}.ts`, `${index}`)
+    }
+    channelB!.deliver()
+    expect(a.operations().length).toBeLessThanOrEqual(4)
+    expect(b.operations().length).toBeLessThanOrEqual(4)
+    expect(b.toJSON()).toEqual(a.toJSON())
+
+    // Concurrent operations within the limit still converge
+    a.writeFile('0.ts', 'from a')
+    b.rm('0.ts')
+    b.writeFile('b.ts', 'b')
+    channelA!.deliver()
+    channelB!.deliver()
+    expect(a.toJSON()).toEqual(b.toJSON())
+    expect(a.exists('0.ts')).toBe(false)
+    dispose()
+  })
+
+  it('skips operations that do not apply on this peer and rethrows other errors', () => {
+    const { a, b, channelB, dispose } = createPeers()
+    b.setPermissions('src', { readonly: true })
+
+    a.writeFile('src/a.ts', 'a')
+    channelB.deliver()
+    expect(b.exists('src/a.ts')).toBe(false)
+    expect(b.operations()).toHaveLength(1)
+    dispose()
+
+    const fs = createFileSystem<string>()
+    const sync = createSync(fs)
+    vi.spyOn(fs, 'writeFile').mockImplementation(() => {
+      throw new TypeError('bug')
+    })
+    expect(() =>
+      sync.applyOperations([
+        { type: 'writeFile', path: 'a.ts', value: 'a', id: 'c:1', origin: 'c', version: 1 },
+      ]),
+    ).toThrow(TypeError)
+  })
+
+  it('keeps the getters of the wrapped file system live', () => {
+    const fs = createSync(createHistory(createFileSystem<string>()))
+
+    expect(Reflect.get(fs, 'canUndo')).toBe(false)
+    fs.writeFile('index.ts', 'index')
+    expect(Reflect.get(fs, 'canUndo')).toBe(true)
+    expect(fs.operations()).toHaveLength(1)
+  })
+})
+
+describe('FileTree', () => {
+  let disposeTree: (() => void) | undefined
+  afterEach(() => disposeTree?.())
+
+  // jsdom does not implement scrollIntoView
+  beforeEach(() => {
+    Element.prototype.scrollIntoView = () => {}
+  })
+  afterEach(() => {
+    // @ts-expect-error restores the missing method
+    delete Element.prototype.scrollIntoView
+  })
+
+  /**
+   * Renders a row per dirEnt, with accessors to the rows, the dirEnts and the FileTree.
+   * Props can be created inside the render root, p.ex props owning computations.
+   */
+  function renderTree(
+    props:
+      | Omit<FileTreeProps<string>, 'children'>
+      | (() => Omit<FileTreeProps<string>, 'children'>),
+  ) {
+    const container = document.createElement('div')
+    document.body.append(container)
+    const dirEnts: Record<string, Parameters<FileTreeProps<string>['children']>[0]> = {}
+    let fileTree!: Parameters<FileTreeProps<string>['children']>[1]
+    disposeTree = render(() => {
+      const _props = typeof props === 'function' ? props() : props
+      return (
+        <FileTree {..._props}>
+          {(dirEnt, _fileTree) => {
+            dirEnts[dirEnt().path] = dirEnt
+            fileTree = _fileTree
+            return (
+              <FileTree.DirEnt data-path={dirEnt().path} data-status={dirEnt().status}>
+                <FileTree.Name />
+              </FileTree.DirEnt>
+            )
+          }}
+        </FileTree>
+      )
+    }, container)
+    const tree = container.firstElementChild as HTMLElement
+    const row = (path: string) => container.querySelector(`[data-path="${path}"]`)!
+    const paths = () =>
+      Array.from(container.querySelectorAll('[role="treeitem"]')).map(row =>
+        row.getAttribute('data-path'),
+      )
+    const dir = (path: string) => {
+      const dirEnt = dirEnts[path]!()
+      if (dirEnt.type !== 'dir') throw new Error(`${path} should be a dir`)
+      return dirEnt
+    }
+    return { tree, row, paths, dirEnts, dir, fileTree: () => fileTree }
+  }
+
+  describe('ignore', () => {
+    function createFixture() {
+      const fs = createFileSystem<string>()
+      fs.mkdir('src/dist', { recursive: true })
+      fs.mkdir('dist')
+      fs.mkdir('node_modules')
+      fs.writeFile('.gitignore', 'dist/\n*.log\n!keep.log')
+      fs.writeFile('src/.gitignore', '!dist')
+      fs.writeFile('src/index.ts', '')
+      fs.writeFile('debug.log', '')
+      fs.writeFile('keep.log', '')
+      return fs
+    }
+
+    it('hides paths matching the ignore patterns, unless re-included by a negation', () => {
+      const { paths } = renderTree({
+        fs: createFixture(),
+        ignore: ['node_modules', 'dist/', '*.log', '!keep.log'],
+      })
+
+      expect(paths()).toEqual(['src', '.gitignore', 'keep.log'])
+    })
+
+    it('applies the patterns of nested ignore files to their own dir', () => {
+      const { paths, dir } = renderTree({ fs: createFixture(), ignoreFiles: ['.gitignore'] })
+      dir('src').expand()
+
+      expect(paths()).toEqual([
+        'node_modules',
+        'src',
+        'src/dist',
+        'src/.gitignore',
+        'src/index.ts',
+        '.gitignore',
+        'keep.log',
+      ])
+    })
+
+    it('hides dot files without showHidden and dirEnts rejected by the filter', () => {
+      const { paths } = renderTree({
+        fs: createFixture(),
+        showHidden: false,
+        filter: dirEnt => dirEnt.type === 'dir',
+      })
+
+      expect(paths()).toEqual(['dist', 'node_modules', 'src'])
+    })
+  })
+
+  describe('keyboard navigation', () => {
+    function createFixture() {
+      const fs = createFileSystem<string>()
+      fs.mkdir('src/components', { recursive: true })
+      fs.writeFile('src/index.ts', '')
+      fs.writeFile('package.json', '')
+      fs.writeFile('readme.md', '')
+      fs.writeFile('rollup.config.js', '')
+      return fs
+    }
+
+    function press(key: string, init?: KeyboardEventInit) {
+      document.activeElement!.dispatchEvent(
+        new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...init }),
+      )
+    }
+
+    const focused = () => document.activeElement?.getAttribute('data-path')
+
+    it('moves through the tree with the arrow keys', () => {
+      const { dirEnts, dir } = renderTree({ fs: createFixture() })
+      dirEnts['src']!().focus()
+
+      press('ArrowRight')
+      expect(dir('src').expanded).toBe(true)
+      press('ArrowRight')
+      expect(focused()).toBe('src/components')
+      press('ArrowDown')
+      expect(focused()).toBe('src/index.ts')
+      expect(dirEnts['src/index.ts']!().selected).toBe(true)
+      press('ArrowLeft')
+      expect(focused()).toBe('src')
+      press('ArrowLeft')
+      expect(dir('src').expanded).toBe(false)
+
+      press('End')
+      expect(focused()).toBe('rollup.config.js')
+      press('ArrowUp')
+      expect(focused()).toBe('readme.md')
+      press('Home')
+      expect(focused()).toBe('src')
+    })
+
+    it('extends the selection with Shift and selects all with Mod+a', () => {
+      const { dirEnts } = renderTree({ fs: createFixture() })
+      dirEnts['package.json']!().focus()
+      dirEnts['package.json']!().select()
+
+      press('ArrowDown', { shiftKey: true })
+      expect(dirEnts['package.json']!().selected).toBe(true)
+      expect(dirEnts['readme.md']!().selected).toBe(true)
+      expect(dirEnts['rollup.config.js']!().selected).toBe(false)
+
+      press('a', { ctrlKey: true })
+      expect(Object.values(dirEnts).every(dirEnt => dirEnt().selected)).toBe(true)
+    })
+
+    it('overrides and disables commands with the keymap', () => {
+      const { dirEnts } = renderTree({
+        fs: createFixture(),
+        keymap: { ArrowDown: null, j: 'next' },
+      })
+      dirEnts['src']!().focus()
+
+      press('ArrowDown')
+      expect(focused()).toBe('src')
+      press('j')
+      expect(focused()).toBe('package.json')
+    })
+
+    it('moves to the dirEnt starting with the typed characters', () => {
+      vi.useFakeTimers()
+      try {
+        const { dirEnts } = renderTree({ fs: createFixture() })
+        dirEnts['src']!().focus()
+
+        press('r')
+        expect(focused()).toBe('readme.md')
+        // Repeating the character cycles through the dirEnts starting with it
+        press('r')
+        expect(focused()).toBe('rollup.config.js')
+        press('r')
+        expect(focused()).toBe('readme.md')
+
+        vi.advanceTimersByTime(1000)
+        press('r')
+        press('o')
+        expect(focused()).toBe('rollup.config.js')
+
+        // The query is reset after a pause
+        vi.advanceTimersByTime(1000)
+        press('p')
+        expect(focused()).toBe('package.json')
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+  })
+
+  describe('virtualization', () => {
+    const ROW_HEIGHT = 20
+
+    function createFixture() {
+      const fs = createFileSystem<string>()
+      fs.mkdir('src/components', { recursive: true })
+      fs.writeFile('src/components/button.tsx', '')
+      for (let i = 0; i < 1000; i++) {
+        fs.writeFile(`file${String(i).padStart(3, '0')}.ts`, '')
+      }
+      return fs
+    }
+
+    // jsdom does not lay out elements: the tree is 100px high, 5 rows
+    beforeEach(() => {
+      vi.spyOn(HTMLElement.prototype, 'clientHeight', 'get').mockReturnValue(100)
+    })
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('only mounts the rows in the viewport and the overscan', () => {
+      const { tree, paths } = renderTree({
+        fs: createFixture(),
+        virtualize: { rowHeight: ROW_HEIGHT, overscan: 2 },
+      })
+
+      expect(paths()).toEqual([
+        'src',
+        'file000.ts',
+        'file001.ts',
+        'file002.ts',
+        'file003.ts',
+        'file004.ts',
+        'file005.ts',
+      ])
+
+      tree.scrollTop = 400
+      tree.dispatchEvent(new Event('scroll'))
+      // Rows 20 to 24 are in view
+      expect(paths()).toHaveLength(9)
+      expect(paths()[0]).toBe('file017.ts')
+      expect(paths()[8]).toBe('file025.ts')
+    })
+
+    it('keeps the focused row mounted while it is scrolled out of view', () => {
+      const { tree, paths, dirEnts } = renderTree({
+        fs: createFixture(),
+        virtualize: { rowHeight: ROW_HEIGHT, overscan: 0 },
+      })
+      dirEnts['file001.ts']!().focus()
+
+      tree.scrollTop = 4000
+      tree.dispatchEvent(new Event('scroll'))
+      expect(paths()).toContain('file001.ts')
+      expect(paths()).toContain('file199.ts')
+    })
+
+    it('expands the ancestors of the path and scrolls it into view', () => {
+      const { tree, paths, fileTree } = renderTree({
+        fs: createFixture(),
+        virtualize: { rowHeight: ROW_HEIGHT, overscan: 0 },
+      })
+      const isExpanded = (path: string) => fileTree().isDirExpandedById(fileTree().pathToId(path))
+
+      fileTree().scrollToPath('file500.ts')
+      // Scrolled just far enough for the row to be the last one in view
+      expect(tree.scrollTop).toBe(501 * ROW_HEIGHT + ROW_HEIGHT - 100)
+      expect(paths()).toContain('file500.ts')
+
+      fileTree().scrollToPath('src/components/button.tsx')
+      expect(isExpanded('src')).toBe(true)
+      expect(isExpanded('src/components')).toBe(true)
+      expect(tree.scrollTop).toBe(2 * ROW_HEIGHT)
+      expect(paths()).toContain('src/components/button.tsx')
+    })
+
+    it('scrolls the row into view when not virtualized', () => {
+      const scrollIntoView = vi.spyOn(Element.prototype, 'scrollIntoView')
+      const { row, fileTree } = renderTree({ fs: createFixture() })
+
+      fileTree().scrollToPath('src/components/button.tsx')
+      expect(scrollIntoView).toHaveBeenCalledOnce()
+      expect(scrollIntoView.mock.instances[0]).toBe(row('src/components/button.tsx'))
+    })
+  })
+
+  describe('query', () => {
+    function createFixture() {
+      const fs = createFileSystem<string>()
+      fs.mkdir('src/components', { recursive: true })
+      fs.mkdir('test')
+      fs.writeFile('src/components/button.tsx', '')
+      fs.writeFile('src/components/input.tsx', '')
+      fs.writeFile('src/index.ts', '')
+      fs.writeFile('test/button.test.tsx', '')
+      fs.writeFile('README.md', '')
+      return fs
+    }
+
+    it('narrows the tree to the matches and their ancestors', () => {
+      const { paths, dirEnts } = renderTree({ fs: createFixture(), query: 'BUTTON' })
+
+      expect(paths()).toEqual([
+        'src',
+        'src/components',
+        'src/components/button.tsx',
+        'test',
+        'test/button.test.tsx',
+      ])
+      expect(dirEnts['src/components/button.tsx']!().matches).toEqual([[0, 6]])
+      expect(dirEnts['src']!().matches).toBeUndefined()
+    })
+
+    it('restores the expanded dirs once the query is cleared', () => {
+      const [query, setQuery] = createSignal('')
+      const { paths, fileTree } = renderTree({
+        fs: createFixture(),
+        get query() {
+          return query()
+        },
+      })
+      fileTree().expandDirById(fileTree().pathToId('test'))
+
+      setQuery('button')
+      // Dirs collapsed during the query only stay collapsed until it changes
+      fileTree().collapseDirById(fileTree().pathToId('src'))
+      expect(paths()).toEqual(['src', 'test', 'test/button.test.tsx'])
+
+      setQuery('')
+      expect(paths()).toEqual(['src', 'test', 'test/button.test.tsx', 'README.md'])
+    })
+
+    it('matches the characters in order in fuzzy mode', () => {
+      const { paths, dirEnts } = renderTree({
+        fs: createFixture(),
+        query: 'btn',
+        queryMode: 'fuzzy',
+      })
+
+      expect(paths()).toEqual([
+        'src',
+        'src/components',
+        'src/components/button.tsx',
+        'test',
+        'test/button.test.tsx',
+      ])
+      expect(dirEnts['src/components/button.tsx']!().matches).toEqual([
+        [0, 1],
+        [2, 3],
+        [5, 6],
+      ])
+    })
+
+    it('matches with a predicate', () => {
+      const { paths, dirEnts } = renderTree({
+        fs: createFixture(),
+        query: dirEnt => dirEnt.type === 'file' && dirEnt.path.endsWith('.ts'),
+      })
+
+      expect(paths()).toEqual(['src', 'src/index.ts'])
+      expect(dirEnts['src/index.ts']!().matches).toEqual([])
+    })
+  })
+
+  describe('placeholders', () => {
+    function createFixture() {
+      const fs = createFileSystem<string>()
+      fs.mkdir('src')
+      fs.writeFile('src/index.ts', '')
+      return fs
+    }
+
+    function type(input: HTMLInputElement, value: string, code: string) {
+      input.value = value
+      input.dispatchEvent(new KeyboardEvent('keydown', { code, bubbles: true }))
+    }
+
+    it('inserts a placeholder row first in the expanded dir', () => {
+      const { paths, fileTree, dirEnts } = renderTree({ fs: createFixture() })
+
+      fileTree().createFileIn('src')
+      expect(paths()).toEqual(['src', 'src/', 'src/index.ts'])
+      expect(dirEnts['src/']!()).toMatchObject({ type: 'file', name: '', placeholder: true })
+    })
+
+    it('creates the intermediate dirs of nested names', () => {
+      const fs = createFixture()
+      const { paths, fileTree } = renderTree({ fs })
+
+      fileTree().createFileIn('src')
+      fileTree().commitPlaceholder('a/b/c.ts')
+      expect(fs.readFile('src/a/b/c.ts')).toBe('')
+      expect(paths()).toEqual(['src', 'src/a', 'src/a/b', 'src/a/b/c.ts', 'src/index.ts'])
+
+      fileTree().createDirIn('')
+      fileTree().commitPlaceholder('lib')
+      expect(fs.getType('lib')).toBe('dir')
+    })
+
+    it('creates the dirEnt on Enter and discards the placeholder on Escape', () => {
+      const fs = createFixture()
+      const { row, paths, fileTree } = renderTree({ fs })
+
+      fileTree().createFileIn('src')
+      type(row('src/').querySelector('input')!, 'main.ts', 'Enter')
+      expect(fs.exists('src/main.ts')).toBe(true)
+
+      fileTree().createFileIn('src')
+      type(row('src/').querySelector('input')!, 'other.ts', 'Escape')
+      expect(fs.exists('src/other.ts')).toBe(false)
+      expect(paths()).toEqual(['src', 'src/index.ts', 'src/main.ts'])
+    })
+
+    it('discards the placeholder when committed without a name', () => {
+      const { paths, fileTree } = renderTree({ fs: createFixture() })
+
+      fileTree().createFileIn('src')
+      fileTree().commitPlaceholder('')
+      expect(paths()).toEqual(['src', 'src/index.ts'])
+    })
+
+    it('rejects names escaping the dir and names that are taken', () => {
+      const fs = createFixture()
+      const { paths, fileTree } = renderTree({ fs })
+
+      fileTree().createFileIn('src')
+      expect(() => fileTree().commitPlaceholder('../x.ts')).toThrow(InvalidArgumentError)
+      expect(() => fileTree().commitPlaceholder('index.ts')).toThrow(AlreadyExistsError)
+      // The placeholder is kept to correct the name
+      expect(paths()).toEqual(['src', 'src/', 'src/index.ts'])
+      expect(fs.exists('x.ts')).toBe(false)
+    })
+  })
+
+  describe('clipboard', () => {
+    function createFixture() {
+      const fs = createFileSystem<string>()
+      fs.mkdir('src/lib', { recursive: true })
+      fs.mkdir('test')
+      fs.writeFile('src/file.ts', 'file')
+      fs.writeFile('src/lib/util.ts', 'util')
+      return fs
+    }
+
+    it('renames copies pasted into a dir where the name is taken', () => {
+      const fs = createFixture()
+      const { dirEnts, dir, fileTree } = renderTree({ fs })
+      dir('src').expand()
+      dirEnts['src/file.ts']!().select()
+      dirEnts['src/lib']!().shiftSelect()
+
+      fileTree().copy()
+      fileTree().paste('src')
+      fileTree().paste('src')
+      expect(fs.readFile('src/file copy.ts')).toBe('file')
+      expect(fs.readFile('src/file copy 2.ts')).toBe('file')
+      expect(fs.readFile('src/lib copy/util.ts')).toBe('util')
+      expect(fs.readFile('src/lib copy 2/util.ts')).toBe('util')
+      // Copies can be pasted again
+      expect(fileTree().cutPaths).toEqual([])
+    })
+
+    it('moves cut dirEnts once pasted', () => {
+      const fs = createFixture()
+      const { dirEnts, dir, fileTree } = renderTree({ fs })
+      dir('src').expand()
+      dirEnts['src/file.ts']!().select()
+
+      fileTree().cut()
+      expect(fileTree().cutPaths).toEqual(['src/file.ts'])
+      expect(dirEnts['src/file.ts']!().cut).toBe(true)
+
+      fileTree().paste('test')
+      expect(fs.exists('src/file.ts')).toBe(false)
+      expect(fs.readFile('test/file.ts')).toBe('file')
+      expect(fileTree().cutPaths).toEqual([])
+      expect(dir('test').expanded).toBe(true)
+    })
+
+    it('leaves cut dirEnts pasted into their own dir in place', () => {
+      const fs = createFixture()
+      const { dirEnts, dir, fileTree } = renderTree({ fs })
+      dir('src').expand()
+      dirEnts['src/file.ts']!().select()
+
+      fileTree().cut()
+      fileTree().paste('src')
+      expect(fs.readdir('src')).toEqual(['src/lib', 'src/file.ts'])
+    })
+
+    it('copies and pastes into the focused dir with the keyboard', () => {
+      const fs = createFixture()
+      const { dirEnts, dir } = renderTree({ fs })
+      dir('src').expand()
+      dirEnts['src/file.ts']!().select()
+      dirEnts['src/file.ts']!().focus()
+
+      const press = (key: string) =>
+        document.activeElement!.dispatchEvent(
+          new KeyboardEvent('keydown', { key, ctrlKey: true, bubbles: true, cancelable: true }),
+        )
+      press('c')
+      dirEnts['test']!().focus()
+      press('v')
+      expect(fs.readFile('test/file.ts')).toBe('file')
+      expect(fs.exists('src/file.ts')).toBe(true)
+    })
+  })
+
+  describe('unimplemented operations', () => {
+    it('throws NotImplementedError for operations the file system does not implement', () => {
+      const fs = createFileSystem<string>()
+      fs.writeFile('index.ts', '')
+      const { dirEnts, fileTree } = renderTree({ fs: { ...fs, cp: undefined, mkdir: undefined } })
+      dirEnts['index.ts']!().select()
+
+      fileTree().copy()
+      expect(() => fileTree().paste('')).toThrow(NotImplementedError)
+
+      fileTree().createDirIn('')
+      expect(() => fileTree().commitPlaceholder('src')).toThrow(
+        expect.objectContaining({ code: 'ENOSYS', syscall: 'mkdir', path: 'src' }),
+      )
+    })
+  })
+
+  describe('dirty markers', () => {
+    it('exposes the status of the dirEnts of a dirty tracker', () => {
+      const template = {
+        src: { type: 'dir' },
+        'src/index.ts': { type: 'file', value: 'index' },
+        'README.md': { type: 'file', value: 'readme' },
+      } as const
+      let fs!: ReturnType<typeof createDirtyTracker<FileSystem<string>>>
+      const { row, dir } = renderTree(() => {
+        fs = createDirtyTracker(createFileSystem.from<string>(template), template)
+        return { fs }
+      })
+      dir('src').expand()
+
+      fs.writeFile('src/index.ts', 'changed')
+      fs.rename('README.md', 'CHANGELOG.md')
+      fs.writeFile('src/main.ts', 'main')
+
+      expect(row('src').getAttribute('data-status')).toBe('modified')
+      expect(row('src/index.ts').getAttribute('data-status')).toBe('modified')
+      expect(row('src/main.ts').getAttribute('data-status')).toBe('added')
+      expect(row('CHANGELOG.md').getAttribute('data-status')).toBe('renamed')
+    })
+  })
+
+  describe('async file systems', () => {
+    const LATENCY = 10
+
+    function wait(ms = LATENCY) {
+      return new Promise(resolve => setTimeout(resolve, ms))
+    }
+
+    /** Wraps a file system with async methods that resolve after an artificial latency. */
+    function createLatentFileSystem(fs: FileSystem<string>) {
+      const readdirCalls = new Array<string>()
+      return {
+        readdirCalls,
+        async readdir(path: string, options: { withFileTypes: true }) {
+          readdirCalls.push(path)
+          await wait()
+          return fs.readdir(path, options)
+        },
+        async rename(previous: string, next: string) {
+          await wait()
+          fs.rename(previous, next)
+        },
+      }
+    }
+
+    let dispose: (() => void) | undefined
+    afterEach(() => dispose?.())
+
+    function renderFileTree(
+      fs: ReturnType<typeof createLatentFileSystem>,
+      onError?: (error: unknown) => void,
+    ) {
+      const container = document.createElement('div')
+      const dirEnts: Record<string, Parameters<FileTreeProps['children']>[0]> = {}
+      dispose = render(
+        () => (
+          <FileTree fs={fs} onError={onError}>
+            {dirEnt => {
+              dirEnts[dirEnt().path] = dirEnt
+              return <span>{dirEnt().path}</span>
+            }}
+          </FileTree>
+        ),
+        container,
+      )
+      const paths = () =>
+        Array.from(container.querySelectorAll('span')).map(span => span.textContent)
+      return { dirEnts, paths }
+    }
+
+    function createFixture() {
+      const fs = createFileSystem()
+      fs.mkdir('src/components', { recursive: true })
+      fs.writeFile('src/index.ts', '')
+      fs.writeFile('src/components/button.tsx', '')
+      fs.writeFile('README.md', '')
+      return fs
+    }
+
+    it('loads the children of a dir only once it is expanded', async () => {
+      const fs = createLatentFileSystem(createFixture())
+      const { dirEnts, paths } = renderFileTree(fs)
+
+      expect(paths()).toEqual([])
+      await wait(LATENCY * 2)
+      expect(paths()).toEqual(['src', 'README.md'])
+      expect(fs.readdirCalls).toEqual([''])
+
+      const src = dirEnts['src']!()
+      if (src.type !== 'dir') throw new Error('src should be a dir')
+
+      src.expand()
+      expect(src.loading).toBe(true)
+      expect(fs.readdirCalls).toEqual(['', 'src'])
+
+      await wait(LATENCY * 2)
+      expect(src.loading).toBe(false)
+      expect(paths()).toEqual(['src', 'src/components', 'src/index.ts', 'README.md'])
+    })
+
+    it('exposes errors while loading a dir', async () => {
+      const fs = createLatentFileSystem(createFixture())
+      const { dirEnts } = renderFileTree({
+        ...fs,
+        async readdir(path, options) {
+          if (path === 'src') {
+            await wait()
+            throw new Error('Network error')
+          }
+          return fs.readdir(path, options)
+        },
+      })
+      await wait(LATENCY * 2)
+
+      const src = dirEnts['src']!()
+      if (src.type !== 'dir') throw new Error('src should be a dir')
+
+      src.expand()
+      await wait(LATENCY * 2)
+      expect(src.loading).toBe(false)
+      expect(src.error).toBeInstanceOf(Error)
+    })
+
+    it('renames optimistically while the rename is pending', async () => {
+      const fs = createLatentFileSystem(createFixture())
+      const { dirEnts, paths } = renderFileTree(fs)
+      await wait(LATENCY * 2)
+
+      const readme = dirEnts['README.md']!
+      readme().rename('CHANGELOG.md')
+      expect(paths()).toEqual(['src', 'CHANGELOG.md'])
+      expect(readme().pending).toBe(true)
+
+      await wait(LATENCY * 2)
+      expect(readme().pending).toBe(false)
+      expect(paths()).toEqual(['src', 'CHANGELOG.md'])
+    })
+
+    it('rolls back a failed rename', async () => {
+      const errors = new Array<unknown>()
+      const fs = createLatentFileSystem(createFixture())
+      const { dirEnts, paths } = renderFileTree(fs, error => errors.push(error))
+      await wait(LATENCY * 2)
+
+      // src/index.ts is not loaded yet, but already exists in the underlying file system
+      const readme = dirEnts['README.md']!
+      readme().rename('src/index.ts')
+      expect(readme().path).toBe('src/index.ts')
+      expect(paths()).toEqual(['src'])
+
+      await wait(LATENCY * 2)
+      expect(readme().path).toBe('README.md')
+      expect(readme().pending).toBe(false)
+      expect(paths()).toEqual(['src', 'README.md'])
+      expect(errors).toHaveLength(1)
+    })
+
+    it('drops failures of async operations without an onError handler', async () => {
+      const fs = createLatentFileSystem(createFixture())
+      const { dirEnts, paths } = renderFileTree(fs)
+      await wait(LATENCY * 2)
+
+      // Rethrowing inside the pending rename would end up as an unhandled rejection
+      dirEnts['README.md']!().rename('src/index.ts')
+      await wait(LATENCY * 2)
+      expect(paths()).toEqual(['src', 'README.md'])
+    })
+  })
+
+  describe('drag and drop', () => {
+    let dispose: (() => void) | undefined
+    afterEach(() => dispose?.())
+
+    function renderFileTree(fs: FileSystem<string>) {
+      const container = document.createElement('div')
+      document.body.append(container)
+      const dirEnts: Record<string, Parameters<FileTreeProps<string>['children']>[0]> = {}
+      dispose = render(
+        () => (
+          <FileTree fs={fs}>
+            {dirEnt => {
+              dirEnts[dirEnt().path] = dirEnt
+              return <FileTree.DirEnt data-path={dirEnt().path} />
+            }}
+          </FileTree>
+        ),
+        container,
+      )
+      const row = (path: string) => container.querySelector(`[data-path="${path}"]`)!
+      return { dirEnts, row }
+    }
+
+    /** jsdom implements neither PointerEvent nor DragEvent. */
+    function dispatch(element: Element, type: string, init?: { ctrlKey?: boolean }) {
+      element.dispatchEvent(Object.assign(new Event(type, { bubbles: true }), init))
+    }
+
+    function createFixture() {
+      const fs = createFileSystem<string>()
+      fs.mkdir('src/components', { recursive: true })
+      fs.writeFile('src/index.ts', 'index')
+      fs.writeFile('README.md', 'readme')
+      return fs
+    }
+
+    it('copies the whole selection when Ctrl-dragging a selected dirEnt', () => {
+      const fs = createFixture()
+      const { dirEnts, row } = renderFileTree(fs)
+      const src = dirEnts['src']!()
+      if (src.type !== 'dir') throw new Error('src should be a dir')
+      src.expand()
+      dirEnts['src/index.ts']!().select()
+      dirEnts['README.md']!().select()
+
+      dispatch(row('README.md'), 'pointerdown', { ctrlKey: true })
+      dispatch(row('README.md'), 'dragstart', { ctrlKey: true })
+      dispatch(row('src/components'), 'drop', { ctrlKey: true })
+
+      expect(fs.readdir('src/components').toSorted()).toEqual([
+        'src/components/README.md',
+        'src/components/index.ts',
+      ])
+      expect(fs.readFile('README.md')).toBe('readme')
+      expect(fs.readFile('src/index.ts')).toBe('index')
+    })
+
+    it('deselects a selected dirEnt when Ctrl-clicking it without dragging', () => {
+      const { dirEnts, row } = renderFileTree(createFixture())
+      dirEnts['src']!().select()
+      dirEnts['README.md']!().select()
+
+      dispatch(row('README.md'), 'pointerdown', { ctrlKey: true })
+      expect(dirEnts['README.md']!().selected).toBe(true)
+
+      dispatch(row('README.md'), 'pointerup', { ctrlKey: true })
+      expect(dirEnts['README.md']!().selected).toBe(false)
+      expect(dirEnts['src']!().selected).toBe(true)
+    })
+
+    it('refuses drops into readonly dirs and drags of locked dirEnts', () => {
+      const fs = createFixture()
+      fs.setPermissions('src', { readonly: true })
+      fs.setPermissions('README.md', { locked: true })
+      const { dirEnts, row } = renderFileTree(fs)
+
+      expect(dirEnts['src']!().readonly).toBe(true)
+      expect(dirEnts['README.md']!().locked).toBe(true)
+      expect(row('README.md').getAttribute('draggable')).toBe('false')
+      expect(row('src').getAttribute('draggable')).toBe('true')
+
+      const dragOver = new Event('dragover', { bubbles: true, cancelable: true })
+      row('src').dispatchEvent(dragOver)
+      expect(dragOver.defaultPrevented).toBe(false)
+    })
+
+    it('moves the selection when dragging without modifiers', () => {
+      const fs = createFixture()
+      const { row } = renderFileTree(fs)
+
+      dispatch(row('README.md'), 'pointerdown')
+      dispatch(row('README.md'), 'dragstart')
+      dispatch(row('src'), 'drop')
+
+      expect(fs.exists('README.md')).toBe(false)
+      expect(fs.readFile('src/README.md')).toBe('readme')
+    })
+  })
+
+  describe('accessibility', () => {
+    let dispose: (() => void) | undefined
+    afterEach(() => dispose?.())
+
+    function renderFileTree() {
+      const fs = createFileSystem()
+      fs.mkdir('src/components', { recursive: true })
+      fs.writeFile('src/index.ts', '')
+      fs.writeFile('README.md', '')
+
+      const container = document.createElement('div')
+      document.body.append(container)
+      const dirEnts: Record<string, Parameters<FileTreeProps['children']>[0]> = {}
+      dispose = render(
+        () => (
+          <FileTree fs={fs}>
+            {dirEnt => {
+              dirEnts[dirEnt().path] = dirEnt
+              return (
+                <FileTree.DirEnt data-path={dirEnt().path}>
+                  <FileTree.IndentGuides render={() => <span class="guide" />} />
+                  <FileTree.Name />
+                </FileTree.DirEnt>
+              )
+            }}
+          </FileTree>
+        ),
+        container,
+      )
+      const row = (path: string) => container.querySelector(`[data-path="${path}"]`)!
+      return { container, dirEnts, row }
+    }
+
+    it('exposes the tree and its items with their hierarchy and state', () => {
+      const { container, dirEnts, row } = renderFileTree()
+
+      const tree = container.firstElementChild!
+      expect(tree.getAttribute('role')).toBe('tree')
+      expect(tree.getAttribute('aria-multiselectable')).toBe('true')
+
+      expect(row('src').getAttribute('role')).toBe('treeitem')
+      expect(row('src').getAttribute('aria-level')).toBe('1')
+      expect(row('src').getAttribute('aria-expanded')).toBe('false')
+      expect(row('src').getAttribute('aria-setsize')).toBe('2')
+      expect(row('src').getAttribute('aria-posinset')).toBe('1')
+      expect(row('README.md').getAttribute('aria-posinset')).toBe('2')
+      expect(row('README.md').hasAttribute('aria-expanded')).toBe(false)
+
+      const src = dirEnts['src']!()
+      if (src.type !== 'dir') throw new Error('src should be a dir')
+      src.expand()
+      src.select()
+
+      expect(row('src').getAttribute('aria-expanded')).toBe('true')
+      expect(row('src').getAttribute('aria-selected')).toBe('true')
+      expect(row('README.md').getAttribute('aria-selected')).toBe('false')
+      expect(row('src/index.ts').getAttribute('aria-level')).toBe('2')
+      expect(row('src/index.ts').getAttribute('aria-setsize')).toBe('2')
+      expect(row('src/index.ts').getAttribute('aria-posinset')).toBe('2')
+    })
+
+    it('moves the tab stop with the focused dirEnt', () => {
+      const { dirEnts, row } = renderFileTree()
+
+      expect(row('src').getAttribute('tabindex')).toBe('0')
+      expect(row('README.md').getAttribute('tabindex')).toBe('-1')
+
+      dirEnts['README.md']!().focus()
+
+      expect(row('src').getAttribute('tabindex')).toBe('-1')
+      expect(row('README.md').getAttribute('tabindex')).toBe('0')
+      expect(document.activeElement).toBe(row('README.md'))
+    })
+
+    it('hides the indent guides from assistive technology', () => {
+      const { dirEnts, row } = renderFileTree()
+
+      const src = dirEnts['src']!()
+      if (src.type !== 'dir') throw new Error('src should be a dir')
+      src.expand()
+
+      const guides = row('src/index.ts').querySelectorAll('.guide')
+      expect(guides).toHaveLength(1)
+      guides.forEach(guide => expect(guide.closest('[aria-hidden="true"]')).not.toBeNull())
+    })
+  })
+})
@@ -0,0 +1,123 @@
+// @vitest-environment node
+import * as nodeFs from 'node:fs'
+import * as nodeOs from 'node:os'
+import * as nodePath from 'node:path'
+import { createRoot } from 'solid-js'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createFileSystem } from '../src/create-file-system'
+import { createNodeStorage } from '../src/node'
+
+describe('createNodeStorage', () => {
+  it('imports without browser globals', async () => {
+    vi.stubGlobal('navigator', undefined)
+    vi.resetModules()
+    try {
+      await expect(import('../src/node')).resolves.toHaveProperty('createNodeStorage')
+    } finally {
+      vi.unstubAllGlobals()
+    }
+  })
+
+  let directory: string
+  let dispose: (() => void) | undefined
+
+  beforeEach(() => {
+    directory = nodeFs.mkdtempSync(nodePath.join(nodeOs.tmpdir(), 'solid-fs-'))
+    nodeFs.mkdirSync(nodePath.join(directory, 'src'))
+    nodeFs.mkdirSync(nodePath.join(directory, 'node_modules/solid-js'), { recursive: true })
+    nodeFs.writeFileSync(nodePath.join(directory, 'src/index.ts'), 'index')
+    nodeFs.writeFileSync(nodePath.join(directory, 'node_modules/solid-js/index.js'), '')
+  })
+
+  afterEach(() => {
+    dispose?.()
+    nodeFs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  function createMirror() {
+    return createRoot(_dispose => {
+      dispose = _dispose
+      return createFileSystem({
+        storage: createNodeStorage(directory, { ignore: ['node_modules'], debounce: 5 }),
+      })
+    })
+  }
+
+  function readFromDisk(path: string) {
+    return nodeFs.readFileSync(nodePath.join(directory, path), 'utf-8')
+  }
+
+  async function waitFor(assertion: () => void, timeout = 2000) {
+    const start = Date.now()
+    while (true) {
+      try {
+        return assertion()
+      } catch (error) {
+        if (Date.now() - start > timeout) throw error
+        await new Promise(resolve => setTimeout(resolve, 20))
+      }
+    }
+  }
+
+  it('loads the directory without the ignored paths', () => {
+    const fs = createMirror()
+    expect(fs.readdir('')).toEqual(['src'])
+    expect(fs.readFile('src/index.ts')).toBe('index')
+  })
+
+  it('writes changes of the file system to disk', async () => {
+    const fs = createMirror()
+
+    fs.writeFile('src/button.tsx', 'button')
+    fs.rename('src/index.ts', 'src/main.ts')
+    fs.mkdir('src/components')
+    await fs.flush()
+
+    expect(readFromDisk('src/button.tsx')).toBe('button')
+    expect(readFromDisk('src/main.ts')).toBe('index')
+    expect(nodeFs.existsSync(nodePath.join(directory, 'src/index.ts'))).toBe(false)
+    expect(nodeFs.statSync(nodePath.join(directory, 'src/components')).isDirectory()).toBe(true)
+
+    fs.rm('src', { recursive: true })
+    await fs.flush()
+    expect(nodeFs.readdirSync(directory).sort()).toEqual(['node_modules'])
+  })
+
+  it('applies changes on disk to the file system', async () => {
+    const fs = createMirror()
+
+    nodeFs.writeFileSync(nodePath.join(directory, 'src/index.ts'), 'changed')
+    nodeFs.mkdirSync(nodePath.join(directory, 'lib'))
+    nodeFs.writeFileSync(nodePath.join(directory, 'lib/utils.ts'), 'utils')
+    nodeFs.writeFileSync(nodePath.join(directory, 'node_modules/solid-js/web.js'), '')
+
+    await waitFor(() => {
+      expect(fs.readFile('src/index.ts')).toBe('changed')
+      expect(fs.readFile('lib/utils.ts')).toBe('utils')
+    })
+    expect(fs.exists('node_modules')).toBe(false)
+
+    nodeFs.rmSync(nodePath.join(directory, 'lib'), { recursive: true })
+    await waitFor(() => expect(fs.exists('lib')).toBe(false))
+
+    // Changes applied from disk are not written back
+    await fs.flush()
+    expect(readFromDisk('src/index.ts')).toBe('changed')
+  })
+
+  it('watches directories created on disk after it started watching', async () => {
+    const fs = createMirror()
+
+    nodeFs.mkdirSync(nodePath.join(directory, 'lib/nested'), { recursive: true })
+    await waitFor(() => expect(fs.exists('lib/nested')).toBe(true))
+
+    nodeFs.writeFileSync(nodePath.join(directory, 'lib/nested/utils.ts'), 'utils')
+    await waitFor(() => expect(fs.readFile('lib/nested/utils.ts')).toBe('utils'))
+
+    nodeFs.writeFileSync(nodePath.join(directory, 'lib/nested/utils.ts'), 'changed')
+    await waitFor(() => expect(fs.readFile('lib/nested/utils.ts')).toBe('changed'))
+
+    nodeFs.rmSync(nodePath.join(directory, 'lib/nested/utils.ts'))
+    await waitFor(() => expect(fs.exists('lib/nested/utils.ts')).toBe(false))
+  })
+})
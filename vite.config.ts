@@ -12,20 +12,24 @@ export default defineConfig({
     tsconfigPaths(),
     solid(),
     libInjectCss(),
-    dtsBundle({ fileName: 'index.d.ts' }),
+    dtsBundle(
+      { fileName: entryName => `${entryName}.d.ts` },
+      { preferredConfigPath: './tsconfig.json' },
+    ),
   ],
   server: { port: 3000 },
   build: {
     lib: {
       entry: {
         index: normalizePath(path.resolve(__dirname, 'src/index.ts')),
+        node: normalizePath(path.resolve(__dirname, 'src/node.ts')),
       },
       name: 'solid-fs-components',
       formats: ['es'],
     },
     minify: false,
     rollupOptions: {
-      external: ['solid-js', 'solid-js/store', 'solid-js/web'],
+      external: ['solid-js', 'solid-js/store', 'solid-js/web', /^node:/],
       output: {
         globals: {
           'solid-js': 'SolidJS',